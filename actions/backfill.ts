@@ -0,0 +1,211 @@
+import { Context } from "@tenderly/actions";
+import { ethers, utils } from "ethers";
+
+import { ConditionalOrder__factory, GPv2Settlement__factory } from "./types";
+import {
+  addConditionalOrder,
+  isEmittedByHandler,
+  Registry,
+  SETTLEMENT,
+} from "./register";
+import { getBlockTimestamp, recordTrade } from "./watch";
+import { logger } from "./logger";
+import { scanLogs } from "./logs";
+import { EnvSecrets, FileStorage, LocalContext } from "./standalone";
+
+const conditionalOrderIface = ConditionalOrder__factory.createInterface();
+const settlementIface = GPv2Settlement__factory.createInterface();
+const CONDITIONAL_ORDER_CREATED_TOPIC = conditionalOrderIface.getEventTopic(
+  "ConditionalOrderCreated"
+);
+const TRADE_TOPIC = settlementIface.getEventTopic("Trade");
+
+export const checkpointKey = (network: string): string => {
+  return `CONDITIONAL_ORDER_BACKFILL_${network}`;
+};
+
+export interface BackfillOptions {
+  // First block to scan, defaults to the block after the stored checkpoint
+  fromBlock?: number;
+  // Last block to scan (inclusive), defaults to the latest block
+  toBlock?: number;
+  // Maximum number of blocks per `eth_getLogs` call
+  chunkSize?: number;
+  // Discard the existing registry and checkpoint instead of merging into them
+  rebuild?: boolean;
+}
+
+/**
+ * Scan a block range for `ConditionalOrderCreated` and `Trade` events, merging
+ * them into the registry for the network.
+ *
+ * The registry and the checkpoint are written after every chunk, so that an
+ * interrupted backfill may be resumed. Applying the same logs more than once
+ * leaves the registry unchanged.
+ * @param context containing the storage of the registry
+ * @param network chain id of the network to backfill
+ * @param provider JSON-RPC provider for the network
+ * @param options block range and chunking of the backfill
+ * @returns the last block that was scanned
+ */
+export async function backfill(
+  context: Context,
+  network: string,
+  provider: ethers.providers.Provider,
+  options: BackfillOptions
+): Promise<number> {
+  const registry = await Registry.load(context, network);
+  if (options.rebuild) {
+    registry.safeOrders.clear();
+    registry.archive.clear();
+  }
+
+  let fromBlock = options.fromBlock;
+  if (fromBlock === undefined) {
+    const checkpoint = await context.storage.getStr(checkpointKey(network));
+    if (options.rebuild || checkpoint === undefined || checkpoint === "") {
+      throw "Please specify the block to start the backfill from";
+    }
+    fromBlock = Number(checkpoint) + 1;
+  }
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+
+  const backfillLog = logger.child({ network, action: "backfill" });
+  backfillLog.info("Backfilling", { fromBlock, toBlock });
+
+  await scanLogs(
+    provider,
+    [
+      { topics: [CONDITIONAL_ORDER_CREATED_TOPIC] },
+      { address: SETTLEMENT, topics: [TRADE_TOPIC] },
+    ],
+    fromBlock,
+    toBlock,
+    async (chunkStart, chunkEnd, logs) => {
+      const timestamps = new Map<string, number | undefined>();
+      for (const log of logs) {
+        if (log.topics[0] === CONDITIONAL_ORDER_CREATED_TOPIC) {
+          const [safeAddress, payload] = conditionalOrderIface.decodeEventLog(
+            "ConditionalOrderCreated",
+            log.data,
+            log.topics
+          );
+          if (!(await isEmittedByHandler(provider, safeAddress, log.address))) {
+            backfillLog.warn(
+              "Ignoring conditional order not emitted by the Safe",
+              { safe: safeAddress, emitter: log.address }
+            );
+            continue;
+          }
+          addConditionalOrder(registry, safeAddress, payload, backfillLog);
+        } else {
+          const { owner, orderUid, sellAmount, buyAmount, feeAmount } =
+            settlementIface.decodeEventLog("Trade", log.data, log.topics);
+          if (!registry.safeOrders.has(utils.getAddress(owner))) {
+            continue;
+          }
+          if (!timestamps.has(log.blockHash)) {
+            timestamps.set(
+              log.blockHash,
+              await getBlockTimestamp(provider, log.blockHash)
+            );
+          }
+          recordTrade(
+            registry,
+            owner,
+            orderUid,
+            {
+              blockNumber: log.blockNumber,
+              blockHash: log.blockHash,
+              transactionHash: log.transactionHash,
+              timestamp: timestamps.get(log.blockHash),
+              sellAmount: sellAmount.toString(),
+              buyAmount: buyAmount.toString(),
+              feeAmount: feeAmount.toString(),
+            },
+            backfillLog
+          );
+        }
+      }
+
+      await registry.write();
+      await context.storage.putStr(checkpointKey(network), chunkEnd.toString());
+      backfillLog.info("Processed blocks", {
+        fromBlock: chunkStart,
+        toBlock: chunkEnd,
+        logs: logs.length,
+      });
+    },
+    options.chunkSize,
+    (error, chunkSize) =>
+      backfillLog.warn("eth_getLogs failed, retrying with fewer blocks", {
+        error,
+        chunkSize,
+      })
+  );
+
+  return toBlock;
+}
+
+/**
+ * Backfill entry point
+ *
+ * Usage: ts-node backfill.ts <network> [fromBlock] [toBlock] [--rebuild]
+ *
+ * Requires a `NODE_URL_<network>` environment variable. The registry is read
+ * from and written to `WATCHTOWER_STORAGE` (default `watchtower.json`), and the
+ * chunk size may be set with `BACKFILL_CHUNK_SIZE`.
+ */
+async function main() {
+  const rebuild = process.argv.includes("--rebuild");
+  const [network, fromBlock, toBlock] = process.argv
+    .slice(2)
+    .filter((arg) => arg !== "--rebuild");
+  if (!network) {
+    throw "Please specify the network (chain id) to backfill";
+  }
+
+  const storage = await FileStorage.load(
+    process.env["WATCHTOWER_STORAGE"] ?? "watchtower.json"
+  );
+  const context = new LocalContext(storage, new EnvSecrets());
+  const provider = new ethers.providers.JsonRpcProvider(
+    await context.secrets.get(`NODE_URL_${network}`)
+  );
+  const chunkSize = process.env["BACKFILL_CHUNK_SIZE"];
+
+  await backfill(context, network, provider, {
+    fromBlock: parseArg(fromBlock, "fromBlock", /^[0-9]+$/),
+    toBlock: parseArg(toBlock, "toBlock", /^[0-9]+$/),
+    chunkSize: parseArg(chunkSize, "BACKFILL_CHUNK_SIZE", /^[1-9][0-9]*$/),
+    rebuild,
+  });
+}
+
+/**
+ * Parse an optional integer argument of the backfill
+ * @param value of the argument, if given
+ * @param name of the argument, for the error
+ * @param pattern that the value must match
+ * @returns the integer, or undefined if the argument was not given
+ */
+function parseArg(
+  value: string | undefined,
+  name: string,
+  pattern: RegExp
+): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (!pattern.test(value)) {
+    throw `Invalid ${name}: ${value}`;
+  }
+  return Number(value);
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    logger.error("Backfill failed", { error: e });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,45 @@
+import { Order } from "@cowprotocol/contracts";
+import { BigNumber, BytesLike } from "ethers";
+
+/**
+ * An error raised off-chain where the Solidity library would revert. The
+ * `errorName` matches the custom error name, in the same way that `ethers`
+ * decodes reverts from `callStatic`.
+ */
+export class ConditionalOrderError extends Error {
+  errorName: string;
+
+  constructor(errorName: string, message?: string) {
+    super(message ? `${errorName}: ${message}` : errorName);
+    this.errorName = errorName;
+  }
+}
+
+/**
+ * Encoding, decoding and validation of the payload of one type of conditional
+ * order (ie. TWAP), so that the CLI and the watchtower can handle it without
+ * knowing the type.
+ */
+export interface ConditionalOrderCodec<T = any> {
+  // Name of the conditional order type (ie. `twap`)
+  name: string;
+  // ABI-encode the order data as a conditional order payload
+  encode(data: T): string;
+  // Decode a conditional order payload, throwing if it is not of this type
+  decode(payload: BytesLike): T;
+  // Check the order data as the handler would, throwing `ConditionalOrderError`
+  validate(data: T): void;
+  // Describe the order data as labelled, human readable values
+  describe(data: T): Record<string, string>;
+  // Optionally, the worst price that the parts may trade at, as the amounts
+  // of sell and buy token
+  limit?(data: T): { sellAmount: BigNumber; buyAmount: BigNumber };
+  // Optionally, the index of the part that an order with `validTo` is for
+  part?(data: T, validTo: number): number;
+  // Optionally, the order that `getTradeableOrder` returns during a part,
+  // throwing if there is no such part
+  order?(data: T, part: number): Order;
+  // Optionally, determine off-chain that the handler's `getTradeableOrder` would
+  // revert with `OrderNotValid` at `timestamp`, returning the reason
+  notTradeable?(data: T, timestamp: number): string | undefined;
+}
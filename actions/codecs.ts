@@ -0,0 +1,66 @@
+import { BytesLike } from "ethers";
+
+import { ConditionalOrderCodec } from "./codec";
+import { twapCodec } from "./twap";
+
+const codecs = new Map<string, ConditionalOrderCodec>();
+
+/**
+ * Register the codec of a conditional order type
+ * @param codec to register
+ * @throws if a codec of the same name is already registered
+ */
+export function registerCodec(codec: ConditionalOrderCodec) {
+  if (codecs.has(codec.name)) {
+    throw new Error(`Codec ${codec.name} is already registered`);
+  }
+  codecs.set(codec.name, codec);
+}
+
+/**
+ * Get the codec of a conditional order type
+ * @param name of the conditional order type
+ * @returns the codec
+ * @throws if no codec of that name is registered
+ */
+export function getCodec(name: string): ConditionalOrderCodec {
+  const codec = codecs.get(name);
+  if (codec === undefined) {
+    throw new Error(
+      `Unknown conditional order type ${name}, expected one of: ${listCodecs().join(
+        ", "
+      )}`
+    );
+  }
+  return codec;
+}
+
+/**
+ * @returns the names of all registered conditional order types
+ */
+export function listCodecs(): string[] {
+  return Array.from(codecs.keys());
+}
+
+/**
+ * Find the type of a conditional order from its payload. As payloads do not
+ * identify their type, this is the first codec that decodes and validates it.
+ * @param payload of the conditional order
+ * @returns the codec and the decoded order data, or undefined if no codec matches
+ */
+export function detectCodec(
+  payload: BytesLike
+): { codec: ConditionalOrderCodec; data: any } | undefined {
+  for (const codec of codecs.values()) {
+    try {
+      const data = codec.decode(payload);
+      codec.validate(data);
+      return { codec, data };
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+registerCodec(twapCodec);
@@ -0,0 +1,207 @@
+import { Context } from "@tenderly/actions";
+
+import { detectCodec } from "./codecs";
+import { logger } from "./logger";
+import {
+  LifecycleEvent,
+  LifecycleEventType,
+  loadWebhooks,
+  notify,
+} from "./notify";
+import {
+  ConditionalOrder,
+  ConditionalOrderStatus,
+  OrderStatus,
+  Registry,
+} from "./register";
+
+// The status of every order in a registry, and whether each conditional order
+// was archived
+type Snapshot = {
+  orders: Map<string, OrderStatus>;
+  conditionalOrders: Map<string, ConditionalOrderStatus | undefined>;
+};
+
+/**
+ * Take a snapshot of the registry, to find the changes made by an action
+ * @param registry as loaded by the action
+ * @returns the snapshot
+ */
+export const snapshot = (registry: Registry): Snapshot => {
+  const statuses: Snapshot = {
+    orders: new Map(),
+    conditionalOrders: new Map(),
+  };
+  forEachConditionalOrder(
+    registry,
+    (owner, hash, conditionalOrder, archived) => {
+      statuses.conditionalOrders.set(`${owner}:${hash}`, archived);
+      for (const [orderUid, { status }] of conditionalOrder.orders.entries()) {
+        statuses.orders.set(`${owner}:${hash}:${orderUid}`, status);
+      }
+    }
+  );
+  return statuses;
+};
+
+/**
+ * Find the lifecycle events of the changes made to a registry since a snapshot
+ * @param registry after the action
+ * @param before snapshot of the registry before the action
+ * @param blockNumber of the action's event
+ * @returns the lifecycle events
+ */
+export const lifecycleEvents = (
+  registry: Registry,
+  before: Snapshot,
+  blockNumber: number
+): LifecycleEvent[] => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const events: LifecycleEvent[] = [];
+  forEachConditionalOrder(
+    registry,
+    (owner, hash, conditionalOrder, archived) => {
+      const detected = detectCodec(conditionalOrder.payload);
+      const base = {
+        network: registry.network,
+        safe: owner,
+        conditionalOrderHash: hash,
+        orderType: detected?.codec.name,
+        blockNumber,
+        timestamp,
+      };
+      const key = `${owner}:${hash}`;
+      if (!before.conditionalOrders.has(key)) {
+        events.push({
+          type: LifecycleEventType.CONDITIONAL_ORDER_CREATED,
+          ...base,
+        });
+      }
+
+      const limit = detected?.codec.limit?.(detected.data);
+      for (const [orderUid, record] of conditionalOrder.orders.entries()) {
+        const type = eventType(
+          before.orders.get(`${key}:${orderUid}`),
+          record.status
+        );
+        if (type === undefined) continue;
+
+        events.push({
+          type,
+          ...base,
+          part:
+            record.validTo !== undefined
+              ? detected?.codec.part?.(detected.data, record.validTo)
+              : undefined,
+          orderUid,
+          sellAmount: record.fill?.sellAmount ?? limit?.sellAmount.toString(),
+          buyAmount: record.fill?.buyAmount ?? limit?.buyAmount.toString(),
+          feeAmount: record.fill?.feeAmount,
+          transactionHash: record.fill?.transactionHash,
+          reason:
+            record.status === OrderStatus.REJECTED
+              ? record.lastError
+              : undefined,
+        });
+      }
+
+      // The conditional order ended, after the events of its parts
+      if (
+        archived !== undefined &&
+        before.conditionalOrders.get(key) === undefined
+      ) {
+        events.push({
+          type:
+            archived === ConditionalOrderStatus.CANCELLED
+              ? LifecycleEventType.CONDITIONAL_ORDER_CANCELLED
+              : LifecycleEventType.CONDITIONAL_ORDER_EXPIRED,
+          ...base,
+        });
+      }
+    }
+  );
+  return events;
+};
+
+/**
+ * Notify the configured webhooks of the changes made to a registry since a
+ * snapshot. Failures are logged, and never fail the action.
+ * @param context of the action, containing the `WEBHOOKS` secret
+ * @param registry after the action
+ * @param before snapshot of the registry before the action
+ * @param blockNumber of the action's event
+ */
+export const notifyChanges = async (
+  context: Context,
+  registry: Registry,
+  before: Snapshot,
+  blockNumber: number
+) => {
+  try {
+    const webhooks = await loadWebhooks(context);
+    if (webhooks.length === 0) return;
+    await notify(webhooks, lifecycleEvents(registry, before, blockNumber));
+  } catch (e) {
+    logger.error("Could not notify webhooks", {
+      network: registry.network,
+      error: e,
+    });
+  }
+};
+
+/**
+ * The event of an order changing from one status to another, if any
+ */
+const eventType = (
+  previous: OrderStatus | undefined,
+  status: OrderStatus
+): LifecycleEventType | undefined => {
+  if (previous === status) return undefined;
+  switch (status) {
+    case OrderStatus.SUBMITTED:
+      // The fill of the order was reorged out, and it is open again
+      return previous === OrderStatus.SETTLING
+        ? LifecycleEventType.ORDER_REORGED
+        : LifecycleEventType.ORDER_PLACED;
+    case OrderStatus.SETTLING:
+      return LifecycleEventType.ORDER_FILLED;
+    case OrderStatus.FILLED:
+      // Fills are notified when they are seen, not when they are confirmed
+      return previous === OrderStatus.SETTLING
+        ? undefined
+        : LifecycleEventType.ORDER_FILLED;
+    case OrderStatus.REJECTED:
+      return LifecycleEventType.ORDER_REJECTED;
+    case OrderStatus.EXPIRED:
+      return LifecycleEventType.ORDER_EXPIRED;
+    case OrderStatus.CANCELLED:
+      return LifecycleEventType.ORDER_CANCELLED;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Call a function for every active and archived conditional order, with the
+ * status it was archived with, if any
+ */
+const forEachConditionalOrder = (
+  registry: Registry,
+  fn: (
+    owner: string,
+    hash: string,
+    conditionalOrder: ConditionalOrder,
+    archived?: ConditionalOrderStatus
+  ) => void
+) => {
+  for (const [owner, conditionalOrders] of registry.safeOrders.entries()) {
+    for (const [hash, conditionalOrder] of conditionalOrders.entries()) {
+      fn(owner, hash, conditionalOrder);
+    }
+  }
+  for (const [owner, conditionalOrders] of registry.archive.entries()) {
+    for (const [hash, conditionalOrder] of conditionalOrders.entries()) {
+      fn(owner, hash, conditionalOrder, conditionalOrder.status);
+    }
+  }
+};
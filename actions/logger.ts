@@ -0,0 +1,103 @@
+import { BigNumber } from "ethers";
+
+export enum LogLevel {
+  DEBUG = 10,
+  INFO = 20,
+  WARN = 30,
+  ERROR = 40,
+}
+
+/**
+ * Context of a log entry. The well-known fields identify what the entry is
+ * about, and any others are logged as they are.
+ */
+export interface LogFields {
+  network?: string;
+  // Name of the action (ie. `checkForAndPlaceOrder`)
+  action?: string;
+  blockNumber?: number;
+  safe?: string;
+  conditionalOrderHash?: string;
+  orderUid?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Logs each entry as a single line of JSON, with its level, time and message
+ * alongside the fields of its context.
+ */
+export class Logger {
+  readonly fields: LogFields;
+  readonly level: LogLevel;
+
+  constructor(fields: LogFields = {}, level: LogLevel = levelFromEnv()) {
+    this.fields = fields;
+    this.level = level;
+  }
+
+  /**
+   * Create a logger that adds fields to the context of this one
+   */
+  public child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields }, this.level);
+  }
+
+  public debug(msg: string, fields?: LogFields) {
+    this.log(LogLevel.DEBUG, msg, fields);
+  }
+
+  public info(msg: string, fields?: LogFields) {
+    this.log(LogLevel.INFO, msg, fields);
+  }
+
+  public warn(msg: string, fields?: LogFields) {
+    this.log(LogLevel.WARN, msg, fields);
+  }
+
+  public error(msg: string, fields?: LogFields) {
+    this.log(LogLevel.ERROR, msg, fields);
+  }
+
+  private log(level: LogLevel, msg: string, fields?: LogFields) {
+    if (level < this.level) return;
+    console.log(
+      JSON.stringify(
+        {
+          time: new Date().toISOString(),
+          level: LogLevel[level].toLowerCase(),
+          msg,
+          ...this.fields,
+          ...fields,
+        },
+        serialize
+      )
+    );
+  }
+}
+
+/**
+ * Read the minimum level to log from `LOG_LEVEL` (ie. `debug`), logging from
+ * `info` by default
+ */
+const levelFromEnv = (): LogLevel => {
+  const name = process.env["LOG_LEVEL"]?.toUpperCase() ?? "";
+  return name in LogLevel && isNaN(Number(name))
+    ? LogLevel[name as keyof typeof LogLevel]
+    : LogLevel.INFO;
+};
+
+/**
+ * Log amounts as decimal strings, and errors by their message
+ */
+function serialize(this: any, key: string, value: any): any {
+  const original = this[key];
+  if (BigNumber.isBigNumber(original) || typeof original === "bigint") {
+    return original.toString();
+  }
+  if (original instanceof Error) {
+    return original.message;
+  }
+  return value;
+}
+
+export const logger = new Logger();
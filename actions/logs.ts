@@ -0,0 +1,68 @@
+import { ethers } from "ethers";
+
+// Maximum number of blocks per `eth_getLogs` call, unless given
+const DEFAULT_CHUNK_SIZE = 5000;
+
+/**
+ * Scan a block range for the logs matching any of several filters, in chunks
+ * of blocks. Nodes limit the size of `eth_getLogs` responses, so a chunk that
+ * fails is retried with half as many blocks.
+ * @param provider JSON-RPC provider to get the logs from
+ * @param filters of the logs, without a block range
+ * @param fromBlock first block to scan
+ * @param toBlock last block to scan (inclusive)
+ * @param onChunk called with the logs of each chunk, in the order they were emitted
+ * @param chunkSize maximum number of blocks per `eth_getLogs` call
+ * @param onRetry called with the error of a chunk that failed, and the new chunk size
+ * @throws if a block or the chunk size is not a valid integer, or a single block fails
+ */
+export async function scanLogs(
+  provider: ethers.providers.Provider,
+  filters: ethers.providers.Filter[],
+  fromBlock: number,
+  toBlock: number,
+  onChunk: (
+    fromBlock: number,
+    toBlock: number,
+    logs: ethers.providers.Log[]
+  ) => Promise<void>,
+  chunkSize: number = DEFAULT_CHUNK_SIZE,
+  onRetry: (error: unknown, chunkSize: number) => void = () => undefined
+) {
+  if (!Number.isSafeInteger(fromBlock) || fromBlock < 0) {
+    throw new Error(`Invalid fromBlock: ${fromBlock}`);
+  }
+  if (!Number.isSafeInteger(toBlock) || toBlock < 0) {
+    throw new Error(`Invalid toBlock: ${toBlock}`);
+  }
+  if (!Number.isSafeInteger(chunkSize) || chunkSize < 1) {
+    throw new Error(`Invalid chunk size: ${chunkSize}`);
+  }
+
+  while (fromBlock <= toBlock) {
+    const chunkEnd = Math.min(fromBlock + chunkSize - 1, toBlock);
+
+    let logs: ethers.providers.Log[];
+    try {
+      logs = (
+        await Promise.all(
+          filters.map((filter) =>
+            provider.getLogs({ ...filter, fromBlock, toBlock: chunkEnd })
+          )
+        )
+      )
+        .flat()
+        .sort(
+          (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+        );
+    } catch (e) {
+      if (chunkSize === 1) throw e;
+      chunkSize = Math.ceil(chunkSize / 2);
+      onRetry(e, chunkSize);
+      continue;
+    }
+
+    await onChunk(fromBlock, chunkEnd, logs);
+    fromBlock = chunkEnd + 1;
+  }
+}
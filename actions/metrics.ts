@@ -0,0 +1,214 @@
+import {
+  ActionFn,
+  BlockEvent,
+  Context,
+  Event,
+  TransactionEvent,
+} from "@tenderly/actions";
+
+import { Logger, logger } from "./logger";
+
+type Labels = Record<string, string>;
+
+/**
+ * A metric with a value for each combination of its labels
+ */
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  protected values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  abstract readonly type: string;
+
+  protected update(labels: Labels, f: (value: number) => number) {
+    const key = JSON.stringify(Object.entries(labels).sort());
+    const current = this.values.get(key)?.value ?? 0;
+    this.values.set(key, { labels, value: f(current) });
+  }
+
+  public get(labels: Labels = {}): number {
+    return (
+      this.values.get(JSON.stringify(Object.entries(labels).sort()))?.value ?? 0
+    );
+  }
+
+  /**
+   * Render the metric in the Prometheus text exposition format
+   */
+  public render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, value } of this.values.values()) {
+      const rendered = Object.entries(labels)
+        .map(([label, v]) => `${label}="${escapeLabel(v)}"`)
+        .join(",");
+      lines.push(`${this.name}${rendered ? `{${rendered}}` : ""} ${value}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = "counter";
+
+  public inc(labels: Labels = {}, amount = 1) {
+    this.update(labels, (value) => value + amount);
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = "gauge";
+
+  public set(labels: Labels, value: number) {
+    this.update(labels, () => value);
+  }
+}
+
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  public counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  public gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  public render(): string {
+    return this.metrics.map((metric) => `${metric.render()}\n`).join("");
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some(({ name }) => name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// Metrics of all actions run by this process, exposed in standalone mode
+export const metrics = new MetricsRegistry();
+
+const runsTotal = metrics.counter(
+  "watchtower_runs_total",
+  "Number of runs of each action"
+);
+const runFailuresTotal = metrics.counter(
+  "watchtower_run_failures_total",
+  "Number of runs of each action that threw"
+);
+const checkedTotal = metrics.counter(
+  "watchtower_conditional_orders_checked_total",
+  "Number of conditional orders checked with getTradeableOrder"
+);
+const skippedTotal = metrics.counter(
+  "watchtower_conditional_orders_skipped_total",
+  "Number of conditional orders that had no order to place"
+);
+const placedTotal = metrics.counter(
+  "watchtower_orders_placed_total",
+  "Number of orders accepted by the orderbook"
+);
+const errorsTotal = metrics.counter(
+  "watchtower_errors_total",
+  "Number of errors handled by each action"
+);
+const runDuration = metrics.gauge(
+  "watchtower_run_duration_seconds",
+  "Duration of the last run of each action"
+);
+export const conditionalOrdersGauge = metrics.gauge(
+  "watchtower_conditional_orders",
+  "Number of active conditional orders in the registry"
+);
+export const lastBlockGauge = metrics.gauge(
+  "watchtower_last_block",
+  "Last block processed by the watchtower"
+);
+
+/**
+ * Tallies what a single run of an action did, for its summary
+ */
+export class Run {
+  readonly action: string;
+  readonly network: string;
+  readonly log: Logger;
+  checked = 0;
+  placed = 0;
+  skipped = 0;
+  errors = 0;
+  private started = Date.now();
+
+  constructor(action: string, network: string, blockNumber: number) {
+    this.action = action;
+    this.network = network;
+    this.log = logger.child({ network, action, blockNumber });
+  }
+
+  /**
+   * Log the summary of the run, and add it to the metrics
+   * @param error thrown by the action, if it failed
+   */
+  public finish(error?: unknown) {
+    const labels = { network: this.network, action: this.action };
+    const duration = (Date.now() - this.started) / 1000;
+    const summary = {
+      checked: this.checked,
+      placed: this.placed,
+      skipped: this.skipped,
+      errors: this.errors,
+      duration,
+    };
+    if (error !== undefined) {
+      this.log.error("Run failed", { ...summary, error });
+      runFailuresTotal.inc(labels);
+    } else {
+      this.log.info("Run finished", summary);
+    }
+
+    runsTotal.inc(labels);
+    checkedTotal.inc({ network: this.network }, this.checked);
+    skippedTotal.inc({ network: this.network }, this.skipped);
+    placedTotal.inc({ network: this.network }, this.placed);
+    errorsTotal.inc(labels, this.errors);
+    runDuration.set(labels, duration);
+  }
+}
+
+/**
+ * Wrap an action, so that each run of it is summarized
+ * @param action name of the action
+ * @param fn implementation of the action, tallying into the run
+ * @returns the action
+ */
+export const instrument = (
+  action: string,
+  fn: (context: Context, event: Event, run: Run) => Promise<void>
+): ActionFn => {
+  return async (context: Context, event: Event) => {
+    const { network, blockNumber } = event as BlockEvent | TransactionEvent;
+    const run = new Run(action, network, blockNumber);
+    try {
+      await fn(context, event, run);
+    } catch (e) {
+      run.finish(e);
+      throw e;
+    }
+    run.finish();
+  };
+};
@@ -0,0 +1,94 @@
+import { BytesLike, ethers } from "ethers";
+
+// Multicall3 is deployed at the same address on all networks supported by CoW Protocol
+export const MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// Maximum number of calls per `aggregate3`, to stay within node `eth_call` limits
+const MAX_CALLS_PER_BATCH = 100;
+
+const multicallIface = new ethers.utils.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+]);
+
+export interface Call {
+  target: string;
+  callData: BytesLike;
+}
+
+export interface CallResult {
+  success: boolean;
+  // The return data if the call succeeded, otherwise the revert data
+  returnData: string;
+}
+
+/**
+ * Make many `eth_call`s in as few requests as possible with Multicall3's
+ * `aggregate3`, allowing individual calls to fail.
+ * @param provider to make the calls with
+ * @param calls to make
+ * @param blockTag of the block to make the calls at
+ * @returns the result of each call, in the same order as `calls`
+ */
+export async function aggregate(
+  provider: ethers.providers.Provider,
+  calls: Call[],
+  blockTag: ethers.providers.BlockTag = "latest"
+): Promise<CallResult[]> {
+  const results: CallResult[] = [];
+  for (let i = 0; i < calls.length; i += MAX_CALLS_PER_BATCH) {
+    results.push(
+      ...(await aggregateBatch(
+        provider,
+        calls.slice(i, i + MAX_CALLS_PER_BATCH),
+        blockTag
+      ))
+    );
+  }
+  return results;
+}
+
+/**
+ * Make a batch of calls with a single `aggregate3`. If the whole batch reverts
+ * (ie. a call uses all of the gas of the `eth_call`), it is split in halves
+ * until the calls that revert it are made on their own, and fail.
+ */
+async function aggregateBatch(
+  provider: ethers.providers.Provider,
+  calls: Call[],
+  blockTag: ethers.providers.BlockTag
+): Promise<CallResult[]> {
+  let returnData: CallResult[];
+  try {
+    const data = await provider.call(
+      {
+        to: MULTICALL3,
+        data: multicallIface.encodeFunctionData("aggregate3", [
+          calls.map(({ target, callData }) => ({
+            target,
+            allowFailure: true,
+            callData,
+          })),
+        ]),
+      },
+      blockTag
+    );
+    [returnData] = multicallIface.decodeFunctionResult("aggregate3", data);
+  } catch (error: any) {
+    // Any other error (ie. the node could not be reached) is not due to the calls
+    if (error.code !== ethers.errors.CALL_EXCEPTION) {
+      throw error;
+    }
+    if (calls.length === 1) {
+      return [{ success: false, returnData: error.data ?? "0x" }];
+    }
+    const middle = Math.ceil(calls.length / 2);
+    return [
+      ...(await aggregateBatch(provider, calls.slice(0, middle), blockTag)),
+      ...(await aggregateBatch(provider, calls.slice(middle), blockTag)),
+    ];
+  }
+  return returnData.map(({ success, returnData }) => ({
+    success,
+    returnData,
+  }));
+}
@@ -0,0 +1,227 @@
+import { Context } from "@tenderly/actions";
+import axios from "axios";
+import { createHmac } from "crypto";
+import { utils } from "ethers";
+
+import { logger } from "./logger";
+
+// Attempts to deliver an event to a webhook, with the delay between them
+// doubling from `WEBHOOK_BACKOFF_MS`
+const MAX_WEBHOOK_ATTEMPTS = 3;
+const WEBHOOK_BACKOFF_MS = 1000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+// Total time to spend delivering the events of a run, after which the rest are
+// dropped, so that a slow webhook does not hold up the action
+const MAX_DELIVERY_MS = 30000;
+// Conditional orders whose events are posted to a webhook at once
+const MAX_CONCURRENT_DELIVERIES = 5;
+
+export const SIGNATURE_HEADER = "X-Watchtower-Signature";
+
+export enum LifecycleEventType {
+  CONDITIONAL_ORDER_CREATED = "conditional_order.created",
+  // The conditional order was archived, as it expired or was cancelled
+  CONDITIONAL_ORDER_EXPIRED = "conditional_order.expired",
+  CONDITIONAL_ORDER_CANCELLED = "conditional_order.cancelled",
+  ORDER_PLACED = "order.placed",
+  ORDER_FILLED = "order.filled",
+  // The fill of an order was reorged out, and the order is open again
+  ORDER_REORGED = "order.reorged",
+  ORDER_REJECTED = "order.rejected",
+  ORDER_EXPIRED = "order.expired",
+  ORDER_CANCELLED = "order.cancelled",
+}
+
+/**
+ * A change in the lifecycle of a conditional order, or of one of its parts.
+ * Amounts are in token units: the executed amounts for fills, and otherwise
+ * the limit amounts of the part.
+ */
+export interface LifecycleEvent {
+  type: LifecycleEventType;
+  network: string;
+  safe: string;
+  conditionalOrderHash: string;
+  // Type of the conditional order (ie. `twap`), if known
+  orderType?: string;
+  part?: number;
+  orderUid?: string;
+  sellAmount?: string;
+  buyAmount?: string;
+  feeAmount?: string;
+  transactionHash?: string;
+  // Why the order was rejected
+  reason?: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface WebhookConfig {
+  url: string;
+  // Only notify of events of these Safes, or of all Safes if omitted
+  safes?: string[];
+  // Only notify of these events, or of all events if omitted
+  events?: LifecycleEventType[];
+  // Sign the body with HMAC-SHA256, in the `SIGNATURE_HEADER` header
+  secret?: string;
+}
+
+/**
+ * Load the webhooks from the `WEBHOOKS` secret, a JSON array of `WebhookConfig`
+ * @param context of the action
+ * @returns the webhooks, or none if the secret is not set, or blank
+ */
+export async function loadWebhooks(context: Context): Promise<WebhookConfig[]> {
+  let value: string;
+  try {
+    value = await context.secrets.get("WEBHOOKS");
+  } catch {
+    return [];
+  }
+  if (value.trim() === "") {
+    return [];
+  }
+  const webhooks = JSON.parse(value);
+  if (!Array.isArray(webhooks) || webhooks.some((w) => !w.url)) {
+    throw new Error("WEBHOOKS must be a JSON array of objects with a url");
+  }
+  return webhooks;
+}
+
+/**
+ * Sign a webhook body, so that the receiver can check that it came from the
+ * watchtower
+ * @param body of the request
+ * @param secret shared with the receiver
+ * @returns the value of the `SIGNATURE_HEADER` header
+ */
+export function signBody(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Check whether a webhook is subscribed to an event
+ */
+export function isSubscribed(
+  webhook: WebhookConfig,
+  event: LifecycleEvent
+): boolean {
+  return (
+    (webhook.safes === undefined ||
+      webhook.safes.some(
+        (safe) => utils.getAddress(safe) === utils.getAddress(event.safe)
+      )) &&
+    (webhook.events === undefined || webhook.events.includes(event.type))
+  );
+}
+
+/**
+ * Post an event to a webhook, retrying with backoff on network errors, rate
+ * limiting and 5xx responses
+ * @param webhook to post to
+ * @param event to post
+ * @param backoff before the first retry, in milliseconds
+ * @param deadline after which no more attempts are made, in milliseconds since the epoch
+ * @returns whether the webhook accepted the event
+ */
+export async function deliver(
+  webhook: WebhookConfig,
+  event: LifecycleEvent,
+  backoff = WEBHOOK_BACKOFF_MS,
+  deadline = Infinity
+): Promise<boolean> {
+  const body = JSON.stringify(event);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (webhook.secret) {
+    headers[SIGNATURE_HEADER] = signBody(body, webhook.secret);
+  }
+
+  for (let attempt = 1; attempt <= MAX_WEBHOOK_ATTEMPTS; attempt++) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return false;
+    try {
+      await axios.post(webhook.url, body, {
+        headers,
+        timeout: Math.min(WEBHOOK_TIMEOUT_MS, remaining),
+      });
+      return true;
+    } catch (error: any) {
+      const status: number | undefined = error.response?.status;
+      const delay = backoff * 2 ** (attempt - 1);
+      const retry =
+        attempt < MAX_WEBHOOK_ATTEMPTS &&
+        Date.now() + delay < deadline &&
+        (status === undefined || status === 429 || status >= 500);
+      logger.warn(retry ? "Webhook failed, retrying" : "Webhook failed", {
+        network: event.network,
+        safe: event.safe,
+        conditionalOrderHash: event.conditionalOrderHash,
+        orderUid: event.orderUid,
+        url: webhook.url,
+        event: event.type,
+        attempt,
+        error: status ?? error.message,
+      });
+      if (!retry) return false;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  return false;
+}
+
+/**
+ * Post events to every webhook that is subscribed to them. The events of each
+ * conditional order are posted in order, and those of different conditional
+ * orders at once. Events that are not posted within `budget` are dropped.
+ * Failures are logged, and never fail the action.
+ * @param webhooks to notify
+ * @param events to post, in order
+ * @param budget for all deliveries, in milliseconds
+ */
+export async function notify(
+  webhooks: WebhookConfig[],
+  events: LifecycleEvent[],
+  budget = MAX_DELIVERY_MS
+) {
+  const deadline = Date.now() + budget;
+  await Promise.all(
+    webhooks.map(async (webhook) => {
+      const queues = new Map<string, LifecycleEvent[]>();
+      for (const event of events.filter((e) => isSubscribed(webhook, e))) {
+        const key = `${event.safe}:${event.conditionalOrderHash}`;
+        queues.set(key, [...(queues.get(key) ?? []), event]);
+      }
+
+      const pending = Array.from(queues.values());
+      const worker = async () => {
+        for (
+          let queue = pending.shift();
+          queue !== undefined;
+          queue = pending.shift()
+        ) {
+          for (const [i, event] of queue.entries()) {
+            if (Date.now() >= deadline) {
+              logger.warn("Out of time to deliver webhooks, dropping events", {
+                network: event.network,
+                safe: event.safe,
+                conditionalOrderHash: event.conditionalOrderHash,
+                url: webhook.url,
+                dropped: queue.length - i,
+              });
+              break;
+            }
+            await deliver(webhook, event, WEBHOOK_BACKOFF_MS, deadline);
+          }
+        }
+      };
+      await Promise.all(
+        Array.from(
+          { length: Math.min(MAX_CONCURRENT_DELIVERIES, pending.length) },
+          worker
+        )
+      );
+    })
+  );
+}
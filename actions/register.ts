@@ -5,82 +5,378 @@ import {
   TransactionEvent,
   Storage,
 } from "@tenderly/actions";
-import { BytesLike } from "ethers";
+import { BytesLike, ethers, utils } from "ethers";
 
 import { ConditionalOrder__factory } from "./types";
+import { detectCodec } from "./codecs";
+import { notifyChanges, snapshot } from "./lifecycle";
+import { Logger, logger } from "./logger";
+import { conditionalOrdersGauge, instrument, Run } from "./metrics";
 
-export const addContract: ActionFn = async (context: Context, event: Event) => {
-  const transactionEvent = event as TransactionEvent;
-  const iface = ConditionalOrder__factory.createInterface();
+// This is constant across all networks supported by CoW Protocol
+export const SETTLEMENT = "0x9008D19f58AAbD9eD0D60971565AA8510560ab41";
 
-  const registry = await Registry.load(context, transactionEvent.network);
-  console.log(
-    `Current registry: ${JSON.stringify(
-      Array.from(registry.safeOrders.entries())
-    )}`
-  );
+// Version of the serialized registry, incremented on incompatible changes
+export const REGISTRY_VERSION = 3;
 
-  transactionEvent.logs.forEach((log) => {
-    if (log.topics[0] === iface.getEventTopic("ConditionalOrderCreated")) {
-      const [safeAddress, payload] = iface.decodeEventLog(
-        "ConditionalOrderCreated",
-        log.data,
-        log.topics
-      );
+// Number of times to merge and retry a write that raced with another action
+const MAX_WRITE_ATTEMPTS = 5;
 
-      // There are two problems here:
-      // 1. The safe may already be in the registry, but the payload may not be.
-      // 2. The safe may not be in the registry at all.
+// keccak256("fallback_manager.handler.address"), where a Safe stores its fallback handler
+const FALLBACK_HANDLER_STORAGE_SLOT =
+  "0x6c9a6c4a39284e37ed1cf53d337577d14212a4870fb976a4366c693b939918d5";
 
-      if (registry.safeOrders.has(safeAddress)) {
-        const conditionalOrders = registry.safeOrders.get(safeAddress);
-        console.log(
-          `adding payload ${payload} to already existing contract ${safeAddress}`
-        );
-        if (!conditionalOrders?.has(payload))
-          conditionalOrders?.add({ payload, orders: new Map() });
-      } else {
-        console.log(`adding payload ${payload} to new contract ${safeAddress}`);
-        registry.safeOrders.set(
-          safeAddress,
-          new Set([{ payload, orders: new Map() }])
+export const addContract: ActionFn = instrument(
+  "addContract",
+  async (context: Context, event: Event, run: Run) => {
+    const transactionEvent = event as TransactionEvent;
+    const iface = ConditionalOrder__factory.createInterface();
+
+    const registry = await Registry.load(context, transactionEvent.network);
+    const before = snapshot(registry);
+    const provider = new ethers.providers.JsonRpcProvider(
+      await context.secrets.get(`NODE_URL_${transactionEvent.network}`)
+    );
+
+    for (const log of transactionEvent.logs) {
+      if (log.topics[0] === iface.getEventTopic("ConditionalOrderCreated")) {
+        const [safeAddress, payload] = iface.decodeEventLog(
+          "ConditionalOrderCreated",
+          log.data,
+          log.topics
         );
+
+        if (!(await isEmittedByHandler(provider, safeAddress, log.address))) {
+          run.log.warn("Ignoring conditional order not emitted by the Safe", {
+            safe: safeAddress,
+            emitter: log.address,
+          });
+          run.skipped += 1;
+          continue;
+        }
+        addConditionalOrder(registry, safeAddress, payload, run.log);
       }
     }
+    await registry.write();
+    await notifyChanges(
+      context,
+      registry,
+      before,
+      transactionEvent.blockNumber
+    );
+  }
+);
+
+/**
+ * Check that a `ConditionalOrderCreated` log was emitted by the fallback
+ * handler of the Safe that it names, as `dispatch` does. Any contract can emit
+ * the event, so logs from other contracts must be ignored.
+ * @param provider to read the Safe's fallback handler with
+ * @param safeAddress named by the log
+ * @param emitter address of the contract that emitted the log
+ * @returns whether the emitter is the Safe's fallback handler
+ */
+export const isEmittedByHandler = async (
+  provider: ethers.providers.Provider,
+  safeAddress: string,
+  emitter: string
+): Promise<boolean> => {
+  const slot = await provider.getStorageAt(
+    safeAddress,
+    FALLBACK_HANDLER_STORAGE_SLOT
+  );
+  return (
+    utils.getAddress(utils.hexDataSlice(slot, 12)) === utils.getAddress(emitter)
+  );
+};
+
+/**
+ * Add a conditional order to the registry, if it is not already registered
+ * @param registry to add the conditional order to
+ * @param safeAddress that created the conditional order
+ * @param payload of the conditional order
+ * @param log to log the conditional order to
+ * @returns the conditional order hash
+ */
+export const addConditionalOrder = (
+  registry: Registry,
+  safeAddress: string,
+  payload: BytesLike,
+  log: Logger = logger
+): string => {
+  const owner = utils.getAddress(safeAddress);
+  const hash = conditionalOrderHash(payload, registry.network);
+  const orderLog = log.child({
+    network: registry.network,
+    safe: owner,
+    conditionalOrderHash: hash,
   });
-  console.log(
-    `Updated registry: ${JSON.stringify(
-      Array.from(registry.safeOrders.entries())
-    )}`
+
+  const conditionalOrders =
+    registry.safeOrders.get(owner) ?? new Map<string, ConditionalOrder>();
+  if (conditionalOrders.has(hash)) {
+    orderLog.info("Conditional order is already registered");
+  } else {
+    const detected = detectCodec(payload);
+    orderLog.info("Adding conditional order", {
+      orderType: detected?.codec.name ?? "unknown",
+      order: detected?.codec.describe(detected.data),
+    });
+    conditionalOrders.set(hash, { payload, orders: new Map() });
+  }
+  registry.safeOrders.set(owner, conditionalOrders);
+
+  return hash;
+};
+
+/**
+ * Set the status of a discrete order of a conditional order, creating the
+ * record if the order has not been seen before
+ * @param conditionalOrder that the order belongs to
+ * @param orderUid of the order
+ * @param status of the order
+ * @param blockNumber at which the status changed
+ * @returns the updated record
+ */
+export const setOrderStatus = (
+  conditionalOrder: ConditionalOrder,
+  orderUid: string,
+  status: OrderStatus,
+  blockNumber: number
+): OrderRecord => {
+  const now = Math.floor(Date.now() / 1000);
+  const record = conditionalOrder.orders.get(orderUid) ?? {
+    status,
+    attempts: 0,
+    createdAt: now,
+    createdBlock: blockNumber,
+  };
+  record.status = status;
+  record.updatedAt = now;
+  record.updatedBlock = blockNumber;
+  conditionalOrder.orders.set(orderUid, record);
+  return record;
+};
+
+/**
+ * Move a conditional order that will never trade again from the active
+ * conditional orders of a Safe into the archive. Orders that were submitted
+ * and not filled take the status of the conditional order.
+ * @param registry containing the conditional order
+ * @param safeAddress that created the conditional order
+ * @param hash of the conditional order to archive
+ * @param status that the conditional order finished with
+ * @param blockNumber at which the conditional order finished
+ */
+export const archiveConditionalOrder = (
+  registry: Registry,
+  safeAddress: string,
+  hash: string,
+  status: ConditionalOrderStatus,
+  blockNumber: number
+) => {
+  const owner = utils.getAddress(safeAddress);
+  const conditionalOrder = registry.safeOrders.get(owner)?.get(hash);
+  if (!conditionalOrder) return;
+
+  const orderStatus =
+    status === ConditionalOrderStatus.CANCELLED
+      ? OrderStatus.CANCELLED
+      : OrderStatus.EXPIRED;
+  for (const [orderUid, record] of conditionalOrder.orders.entries()) {
+    if (
+      record.status === OrderStatus.SUBMITTED ||
+      record.status === OrderStatus.REORGED
+    ) {
+      setOrderStatus(conditionalOrder, orderUid, orderStatus, blockNumber);
+    }
+  }
+
+  registry.safeOrders.get(owner)?.delete(hash);
+  const archived =
+    registry.archive.get(owner) ?? new Map<string, ArchivedConditionalOrder>();
+  archived.set(hash, {
+    ...conditionalOrder,
+    status,
+    archivedAt: Math.floor(Date.now() / 1000),
+    archivedBlock: blockNumber,
+  });
+  registry.archive.set(owner, archived);
+};
+
+/**
+ * Compute the conditional order hash, the EIP-712 digest of
+ * `ConditionalOrder(bytes payload)` in the `GPv2Settlement` domain. This is the
+ * hash that `cancel-order --order-hash` takes.
+ * @param payload of the conditional order
+ * @param network chain id that the conditional order was created on
+ * @returns the conditional order hash
+ */
+export const conditionalOrderHash = (
+  payload: BytesLike,
+  network: string
+): string => {
+  const chainId = Number(network);
+  if (!Number.isInteger(chainId)) {
+    throw new Error(`Unsupported network: ${network}`);
+  }
+  return utils._TypedDataEncoder.hash(
+    {
+      name: "Gnosis Protocol",
+      version: "v2",
+      chainId,
+      verifyingContract: SETTLEMENT,
+    },
+    { ConditionalOrder: [{ name: "payload", type: "bytes" }] },
+    { payload }
   );
-  await registry.write();
 };
 
+// The index of all owners in the registry
 export const storageKey = (network: string): string => {
   return `CONDITIONAL_ORDER_REGISTRY_${network}`;
 };
 
+// The active and archived conditional orders of a single owner
+export const ownerKey = (network: string, owner: string): string => {
+  return `CONDITIONAL_ORDER_REGISTRY_${network}_${owner}`;
+};
+
+// The archive of registries before `REGISTRY_VERSION` 3
+const legacyArchiveKey = (network: string): string => {
+  return `CONDITIONAL_ORDER_ARCHIVE_${network}`;
+};
+
 export enum OrderStatus {
+  // Posted to the orderbook
   SUBMITTED = 1,
+  // Traded on `GPv2Settlement`, with enough confirmations to be final
   FILLED = 2,
+  // `validTo` passed, or the conditional order expired, before it was filled
+  EXPIRED = 3,
+  // The conditional order was cancelled before it was filled
+  CANCELLED = 4,
+  // The orderbook refused the order
+  REJECTED = 5,
+  // The order could not be posted to the orderbook, and will be retried
+  FAILED_SUBMISSION = 6,
+  // Traded in a block that does not yet have enough confirmations
+  SETTLING = 7,
+  // The block it was traded in was reorged out, so it will be posted again.
+  // Only set by earlier versions, which now revert the fill to `SUBMITTED`.
+  REORGED = 8,
+}
+
+export enum ConditionalOrderStatus {
+  EXPIRED = 1,
+  CANCELLED = 2,
 }
 
+/**
+ * The transaction that an order was traded in, and the amounts it traded
+ */
+export type Fill = {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  // Timestamp of the block, if it could be fetched
+  timestamp?: number;
+  // Executed amounts from the `Trade` event, in token units
+  sellAmount: string;
+  buyAmount: string;
+  feeAmount: string;
+};
+
+/**
+ * The history of a discrete order. Times are UNIX timestamps (in seconds) of
+ * when the watchtower observed the change.
+ */
+export type OrderRecord = {
+  status: OrderStatus;
+  // Number of times the order was posted to the orderbook
+  attempts: number;
+  // `validTo` of the order, if known
+  validTo?: number;
+  // Error from the last failed submission, and when to retry it
+  lastError?: string;
+  retryAt?: number;
+  // Where the order was traded, if it is `SETTLING` or `FILLED`
+  fill?: Fill;
+  createdAt?: number;
+  createdBlock?: number;
+  updatedAt?: number;
+  updatedBlock?: number;
+};
+
 export type ConditionalOrder = {
   payload: BytesLike;
-  orders: Map<string, OrderStatus>;
+  orders: Map<string, OrderRecord>;
+};
+
+export type ArchivedConditionalOrder = ConditionalOrder & {
+  status: ConditionalOrderStatus;
+  archivedAt: number;
+  archivedBlock: number;
+};
+
+// Conditional orders by checksummed owner, then by conditional order hash
+export type SafeOrders<T extends ConditionalOrder> = Map<
+  string,
+  Map<string, T>
+>;
+
+/**
+ * A document in storage. `revision` is incremented on every write, and `writer`
+ * identifies the write, so that some writes that raced with another are
+ * detected (see `writeDocument`).
+ */
+type Versioned = {
+  version: number;
+  revision: number;
+  writer: string;
+};
+
+type IndexDocument = Versioned & {
+  owners: string[];
+};
+
+type OwnerDocument = Versioned & {
+  conditionalOrders: Record<string, SerializedConditionalOrder>;
+  archived: Record<string, SerializedConditionalOrder>;
+};
+
+type SerializedConditionalOrder = Record<string, any> & {
+  orders: Record<string, OrderRecord>;
 };
 
+/**
+ * The registry of conditional orders for a network.
+ *
+ * Each owner's conditional orders are stored under their own key, with an
+ * index of all owners. Only the owners that were modified are written back,
+ * and a write that is seen to have raced with another action is merged and
+ * retried.
+ */
 export class Registry {
-  safeOrders: Map<string, Set<ConditionalOrder>>;
+  safeOrders: SafeOrders<ConditionalOrder>;
+  // Conditional orders that have expired or been cancelled
+  archive: SafeOrders<ArchivedConditionalOrder>;
   storage: Storage;
   network: string;
+  // The documents as loaded, to detect modified owners and merge races
+  private loadedIndex: IndexDocument | undefined;
+  private loadedOwners = new Map<string, OwnerDocument>();
+  // Whether the registry was migrated from an earlier version on load
+  private migrated = false;
 
   constructor(
-    safeOrders: Map<string, Set<ConditionalOrder>>,
+    safeOrders: SafeOrders<ConditionalOrder>,
     storage: Storage,
-    network: string
+    network: string,
+    archive: SafeOrders<ArchivedConditionalOrder> = new Map()
   ) {
     this.safeOrders = safeOrders;
+    this.archive = archive;
     this.storage = storage;
     this.network = network;
   }
@@ -90,27 +386,405 @@ export class Registry {
     network: string
   ): Promise<Registry> {
     const str = await context.storage.getStr(storageKey(network));
-    if (str === null || str === undefined || str === "") {
-      return new Registry(
-        new Map<string, Set<ConditionalOrder>>(),
+    const index = parseDocument<IndexDocument>(str);
+
+    if (index === undefined && str) {
+      // Migrate from a registry stored under a single key
+      const [safeOrders, archive] = await Promise.all([
+        deserializeLegacy<ConditionalOrder>(str, network),
+        context.storage
+          .getStr(legacyArchiveKey(network))
+          .then((str) =>
+            deserializeLegacy<ArchivedConditionalOrder>(str, network)
+          ),
+      ]);
+      const registry = new Registry(
+        safeOrders,
         context.storage,
-        network
+        network,
+        archive
       );
+      registry.migrated = true;
+      return registry;
     }
 
-    const safeOrders = JSON.parse(str, reviver);
-    return new Registry(safeOrders, context.storage, network);
+    const registry = new Registry(new Map(), context.storage, network);
+    registry.loadedIndex = index;
+    const documents = await Promise.all(
+      (index?.owners ?? []).map(async (owner) => ({
+        owner,
+        document: parseDocument<OwnerDocument>(
+          await context.storage.getStr(ownerKey(network, owner))
+        ),
+      }))
+    );
+    for (const { owner, document } of documents) {
+      if (document !== undefined) {
+        registry.setOwner(owner, document);
+      }
+    }
+    return registry;
+  }
+
+  /**
+   * Get the conditional orders of a Safe that have expired or been cancelled
+   * @param safeAddress that created the conditional orders
+   * @returns the archived conditional orders by hash
+   */
+  public archived(safeAddress: string): Map<string, ArchivedConditionalOrder> {
+    return this.archive.get(utils.getAddress(safeAddress)) ?? new Map();
+  }
+
+  /**
+   * Serialize the active conditional orders of all owners
+   */
+  public stringify(): string {
+    const owners: Record<
+      string,
+      Record<string, SerializedConditionalOrder>
+    > = {};
+    for (const [owner, conditionalOrders] of this.safeOrders.entries()) {
+      owners[owner] = serializeConditionalOrders(conditionalOrders);
+    }
+    return JSON.stringify(owners);
   }
 
+  /**
+   * Write the owners that were modified since the registry was loaded, and
+   * the index if owners were added.
+   */
   public async write() {
-    await this.storage.putStr(
-      storageKey(this.network),
-      JSON.stringify(this.safeOrders, replacer)
+    const owners = new Set([
+      ...this.loadedOwners.keys(),
+      ...this.safeOrders.keys(),
+      ...this.archive.keys(),
+    ]);
+
+    for (const owner of owners) {
+      const loaded = this.loadedOwners.get(owner);
+      const ours = {
+        conditionalOrders: serializeConditionalOrders(
+          this.safeOrders.get(owner) ?? new Map()
+        ),
+        archived: serializeConditionalOrders(
+          this.archive.get(owner) ?? new Map()
+        ),
+      };
+      if (
+        loaded !== undefined &&
+        JSON.stringify(ours.conditionalOrders) ===
+          JSON.stringify(loaded.conditionalOrders) &&
+        JSON.stringify(ours.archived) === JSON.stringify(loaded.archived)
+      ) {
+        continue;
+      }
+
+      const written = await writeDocument<OwnerDocument>(
+        this.storage,
+        ownerKey(this.network, owner),
+        loaded,
+        { ...ours, version: REGISTRY_VERSION, revision: 0, writer: "" },
+        mergeOwnerDocuments
+      );
+      this.setOwner(owner, written);
+    }
+
+    const indexed = new Set(this.loadedIndex?.owners ?? []);
+    if (Array.from(owners).some((owner) => !indexed.has(owner))) {
+      this.loadedIndex = await writeDocument<IndexDocument>(
+        this.storage,
+        storageKey(this.network),
+        this.loadedIndex,
+        {
+          owners: Array.from(owners),
+          version: REGISTRY_VERSION,
+          revision: 0,
+          writer: "",
+        },
+        (_base, ours, theirs) => ({
+          ...ours,
+          owners: Array.from(new Set([...theirs.owners, ...ours.owners])),
+        })
+      );
+    }
+
+    if (this.migrated) {
+      await this.storage.delete(legacyArchiveKey(this.network));
+      this.migrated = false;
+    }
+
+    conditionalOrdersGauge.set(
+      { network: this.network },
+      Array.from(this.safeOrders.values()).reduce(
+        (count, conditionalOrders) => count + conditionalOrders.size,
+        0
+      )
+    );
+  }
+
+  /**
+   * Replace the conditional orders of an owner with those of a document
+   */
+  private setOwner(owner: string, document: OwnerDocument) {
+    this.loadedOwners.set(owner, document);
+    this.safeOrders.set(
+      owner,
+      deserializeConditionalOrders<ConditionalOrder>(document.conditionalOrders)
+    );
+    this.archive.set(
+      owner,
+      deserializeConditionalOrders<ArchivedConditionalOrder>(document.archived)
+    );
+  }
+}
+
+/**
+ * Parse a document of the current `REGISTRY_VERSION`
+ * @param str as read from storage
+ * @returns the document, or undefined if there is none, or it is of an earlier version
+ */
+function parseDocument<T extends Versioned>(
+  str: string | null | undefined
+): T | undefined {
+  if (str === null || str === undefined || str === "") {
+    return undefined;
+  }
+  const parsed = JSON.parse(str);
+  if (parsed.version !== REGISTRY_VERSION) {
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * Write a document, merging our changes into the document in storage if
+ * another action wrote it since it was read, and retrying if another write is
+ * seen to land between ours and reading it back.
+ *
+ * Storage has no compare-and-set, so this is best-effort: it narrows the window
+ * for lost updates, but does not close it. An action that reads the document
+ * before our write and writes it after our read back overwrites our changes,
+ * and neither action notices.
+ * @param storage to write to
+ * @param key of the document
+ * @param base the document as it was read, if it existed
+ * @param ours the document to write
+ * @param merge our changes since `base` into their document
+ * @returns the document as written
+ */
+async function writeDocument<T extends Versioned>(
+  storage: Storage,
+  key: string,
+  base: T | undefined,
+  ours: T,
+  merge: (base: T | undefined, ours: T, theirs: T) => T
+): Promise<T> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const theirs = parseDocument<T>(await storage.getStr(key));
+    const revision = theirs?.revision ?? 0;
+    const merged =
+      theirs !== undefined && revision !== (base?.revision ?? 0)
+        ? merge(base, ours, theirs)
+        : ours;
+
+    const document = {
+      ...merged,
+      revision: revision + 1,
+      writer: utils.hexlify(utils.randomBytes(8)),
+    };
+    await storage.putStr(key, JSON.stringify(document));
+
+    // Another action may have written in the meantime
+    const written = parseDocument<T>(await storage.getStr(key));
+    if (written?.writer === document.writer) {
+      return document;
+    }
+    logger.warn("Write raced with another action, retrying", { key });
+  }
+  throw new Error(
+    `Failed to write ${key} after ${MAX_WRITE_ATTEMPTS} attempts`
+  );
+}
+
+/**
+ * Merge the changes to an owner since `base` into their document. Conditional
+ * orders archived by either side are archived, and for each order the record
+ * from our side is taken if we changed it (unless theirs is filled), otherwise
+ * theirs.
+ */
+function mergeOwnerDocuments(
+  base: OwnerDocument | undefined,
+  ours: OwnerDocument,
+  theirs: OwnerDocument
+): OwnerDocument {
+  const mergeOrders = (
+    hash: string,
+    ourOrder: SerializedConditionalOrder | undefined,
+    theirOrder: SerializedConditionalOrder | undefined
+  ): SerializedConditionalOrder => {
+    if (ourOrder === undefined) return theirOrder!;
+    if (theirOrder === undefined) return ourOrder;
+    const baseOrders =
+      base?.conditionalOrders[hash]?.orders ??
+      base?.archived[hash]?.orders ??
+      {};
+    const orders = { ...theirOrder.orders };
+    for (const [orderUid, record] of Object.entries(ourOrder.orders)) {
+      const changed =
+        JSON.stringify(record) !== JSON.stringify(baseOrders[orderUid]);
+      // A confirmed fill is final, and a pending fill may only be confirmed or
+      // reverted by an action that saw it
+      const theirFill = orders[orderUid]?.fill;
+      const unseenFill =
+        theirFill !== undefined &&
+        theirFill.blockHash !== baseOrders[orderUid]?.fill?.blockHash;
+      if (
+        changed &&
+        orders[orderUid]?.status !== OrderStatus.FILLED &&
+        !unseenFill
+      ) {
+        orders[orderUid] = record;
+      }
+    }
+    return { ...theirOrder, ...ourOrder, orders };
+  };
+
+  const archived: Record<string, SerializedConditionalOrder> = {};
+  for (const hash of new Set([
+    ...Object.keys(theirs.archived),
+    ...Object.keys(ours.archived),
+  ])) {
+    archived[hash] = mergeOrders(
+      hash,
+      ours.archived[hash] ?? ours.conditionalOrders[hash],
+      theirs.archived[hash] ?? theirs.conditionalOrders[hash]
+    );
+  }
+
+  const conditionalOrders: Record<string, SerializedConditionalOrder> = {};
+  for (const hash of new Set([
+    ...Object.keys(theirs.conditionalOrders),
+    ...Object.keys(ours.conditionalOrders),
+  ])) {
+    const removedByUs =
+      base?.conditionalOrders[hash] !== undefined &&
+      ours.conditionalOrders[hash] === undefined;
+    const removedByThem =
+      base?.conditionalOrders[hash] !== undefined &&
+      theirs.conditionalOrders[hash] === undefined;
+    if (archived[hash] !== undefined || removedByUs || removedByThem) {
+      continue;
+    }
+    conditionalOrders[hash] = mergeOrders(
+      hash,
+      ours.conditionalOrders[hash],
+      theirs.conditionalOrders[hash]
     );
   }
+
+  return { ...ours, conditionalOrders, archived };
+}
+
+/**
+ * Serialize conditional orders by hash as plain objects, with their orders
+ * keyed by order UID
+ */
+function serializeConditionalOrders<T extends ConditionalOrder>(
+  conditionalOrders: Map<string, T>
+): Record<string, SerializedConditionalOrder> {
+  const serialized: Record<string, SerializedConditionalOrder> = {};
+  for (const [hash, conditionalOrder] of conditionalOrders.entries()) {
+    serialized[hash] = {
+      ...conditionalOrder,
+      orders: Object.fromEntries(conditionalOrder.orders),
+    };
+  }
+  return serialized;
+}
+
+function deserializeConditionalOrders<T extends ConditionalOrder>(
+  serialized: Record<string, SerializedConditionalOrder>
+): Map<string, T> {
+  return new Map(
+    Object.entries(serialized).map(([hash, conditionalOrder]) => [
+      hash,
+      {
+        ...conditionalOrder,
+        // Copy the records, so that changes are not made to the document
+        orders: new Map(
+          Object.entries(conditionalOrder.orders).map(([orderUid, record]) => [
+            orderUid,
+            { ...record, fill: record.fill && { ...record.fill } },
+          ])
+        ),
+      } as unknown as T,
+    ])
+  );
+}
+
+/**
+ * Deserialize conditional orders by owner from registries before
+ * `REGISTRY_VERSION` 3, which were stored under a single key
+ * @param str as read from storage
+ * @param network chain id of the registry, used to hash legacy conditional orders
+ * @returns the conditional orders by owner
+ */
+function deserializeLegacy<T extends ConditionalOrder>(
+  str: string | null | undefined,
+  network: string
+): SafeOrders<T> {
+  const safeOrders: SafeOrders<T> = new Map();
+  if (str === null || str === undefined || str === "") {
+    return safeOrders;
+  }
+
+  const parsed = JSON.parse(str, reviver);
+  if (parsed instanceof Map) {
+    return migrateLegacy<T>(parsed, network);
+  }
+  if (parsed.version !== 2) {
+    throw new Error(`Unsupported registry version: ${parsed.version}`);
+  }
+
+  for (const [owner, conditionalOrders] of Object.entries<
+    Record<string, SerializedConditionalOrder>
+  >(parsed.owners)) {
+    safeOrders.set(owner, deserializeConditionalOrders<T>(conditionalOrders));
+  }
+  return safeOrders;
+}
+
+/**
+ * Migrate a registry serialized with `replacer`, where the conditional orders
+ * of each owner were a `Set`, and order statuses may be bare `OrderStatus`es.
+ * Owners that differ only by case are merged, as are duplicate payloads.
+ */
+function migrateLegacy<T extends ConditionalOrder>(
+  legacy: Map<string, Set<T>>,
+  network: string
+): SafeOrders<T> {
+  const safeOrders: SafeOrders<T> = new Map();
+  for (const [safeAddress, conditionalOrders] of legacy.entries()) {
+    const owner = utils.getAddress(safeAddress);
+    const migrated = safeOrders.get(owner) ?? new Map<string, T>();
+    for (const conditionalOrder of conditionalOrders) {
+      const hash = conditionalOrderHash(conditionalOrder.payload, network);
+      const orders = migrated.get(hash)?.orders ?? new Map();
+      for (const [orderUid, record] of conditionalOrder.orders.entries()) {
+        orders.set(
+          orderUid,
+          typeof record === "number" ? { status: record, attempts: 1 } : record
+        );
+      }
+      migrated.set(hash, { ...conditionalOrder, orders });
+    }
+    safeOrders.set(owner, migrated);
+  }
+  return safeOrders;
 }
 
-// Utilities for serializing and deserializing Maps and Sets
+// Utilities for serializing and deserializing Maps and Sets, as used by
+// registries before `REGISTRY_VERSION` 2
 
 export function replacer(_key: any, value: any) {
   if (value instanceof Map) {
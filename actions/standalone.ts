@@ -0,0 +1,376 @@
+import {
+  ActionFn,
+  BlockEvent,
+  Context,
+  Secrets,
+  Storage,
+  TransactionEvent,
+} from "@tenderly/actions";
+import { ethers } from "ethers";
+import { promises as fs } from "fs";
+import { createServer, Server } from "http";
+
+import { ConditionalOrder__factory, GPv2Settlement__factory } from "./types";
+import { addContract, SETTLEMENT } from "./register";
+import { Logger, logger } from "./logger";
+import { lastBlockGauge, metrics } from "./metrics";
+import {
+  checkForAndPlaceOrder,
+  checkForSettlement,
+  reconcileOrders,
+} from "./watch";
+
+// Mirror the triggers in `tenderly.yaml`
+const BLOCKS_PER_CHECK = 5;
+const BLOCKS_PER_RECONCILE = 100;
+const DEFAULT_METRICS_PORT = 9464;
+const CONDITIONAL_ORDER_CREATED_TOPIC =
+  ConditionalOrder__factory.createInterface().getEventTopic(
+    "ConditionalOrderCreated"
+  );
+const TRADE_TOPIC =
+  GPv2Settlement__factory.createInterface().getEventTopic("Trade");
+
+/**
+ * A `Storage` implementation that persists all keys to a single JSON file.
+ *
+ * Writes are serialized and atomic (write to a temporary file, then rename) so
+ * that a crash mid-write never leaves a corrupt registry behind.
+ */
+export class FileStorage implements Storage {
+  path: string;
+  private stored: Map<string, string>;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(path: string, stored: Map<string, string>) {
+    this.path = path;
+    this.stored = stored;
+  }
+
+  public static async load(path: string): Promise<FileStorage> {
+    try {
+      const str = await fs.readFile(path, "utf8");
+      return new FileStorage(path, new Map(Object.entries(JSON.parse(str))));
+    } catch (e: any) {
+      if (e.code === "ENOENT") {
+        return new FileStorage(path, new Map<string, string>());
+      }
+      throw e;
+    }
+  }
+
+  async getStr(key: string): Promise<string> {
+    return this.stored.get(key) ?? "";
+  }
+
+  async getNumber(key: string): Promise<number> {
+    return Number(this.stored.get(key) ?? 0);
+  }
+
+  async getBigInt(key: string): Promise<bigint> {
+    return BigInt(this.stored.get(key) ?? 0);
+  }
+
+  async getJson(key: string): Promise<any> {
+    const value = this.stored.get(key);
+    return value === undefined ? {} : JSON.parse(value);
+  }
+
+  async putStr(key: string, value: string): Promise<void> {
+    this.stored.set(key, value);
+    await this.flush();
+  }
+
+  async putNumber(key: string, value: number): Promise<void> {
+    await this.putStr(key, value.toString());
+  }
+
+  async putBigInt(key: string, value: bigint): Promise<void> {
+    await this.putStr(key, value.toString());
+  }
+
+  async putJson(key: string, value: any): Promise<void> {
+    await this.putStr(key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.stored.delete(key);
+    await this.flush();
+  }
+
+  /**
+   * Persist the current state to disk once any in-flight write has finished
+   */
+  private flush(): Promise<void> {
+    const write = async () => {
+      const tmp = `${this.path}.tmp`;
+      await fs.writeFile(
+        tmp,
+        JSON.stringify(Object.fromEntries(this.stored), null, 2)
+      );
+      await fs.rename(tmp, this.path);
+    };
+    this.pending = this.pending.then(write, write);
+    return this.pending;
+  }
+}
+
+/**
+ * Secrets are read from the environment, using the same names as the Tenderly
+ * secrets (ie. `NODE_URL_1`).
+ */
+export class EnvSecrets implements Secrets {
+  async get(key: string): Promise<string> {
+    const value = process.env[key];
+    if (value === undefined || value === "") {
+      throw new Error(`Missing secret ${key} in the environment`);
+    }
+    return value;
+  }
+}
+
+export class LocalContext implements Context {
+  readonly storage: Storage;
+  readonly secrets: Secrets;
+
+  constructor(storage: Storage, secrets: Secrets) {
+    this.storage = storage;
+    this.secrets = secrets;
+  }
+}
+
+/**
+ * Drives the Tenderly actions for a single network from a JSON-RPC node.
+ *
+ * For every new block, the logs emitted by the block are grouped by transaction
+ * and passed to `addContract` / `checkForSettlement` (the `register_order` and
+ * `watch_settlements` triggers). Every `BLOCKS_PER_CHECK` blocks,
+ * `checkForAndPlaceOrder` is run (the `watch_orders` trigger), and every
+ * `BLOCKS_PER_RECONCILE` blocks, `reconcileOrders` is run (the
+ * `reconcile_orders` trigger).
+ *
+ * All actions for a network run sequentially, so that no two actions ever load
+ * and write the registry at the same time.
+ */
+export class Watchtower {
+  context: Context;
+  network: string;
+  provider: ethers.providers.JsonRpcProvider;
+  private log: Logger;
+  private queue: Promise<void> = Promise.resolve();
+  private lastBlock: number | undefined;
+  private stopped = false;
+
+  constructor(
+    context: Context,
+    network: string,
+    provider: ethers.providers.JsonRpcProvider
+  ) {
+    this.context = context;
+    this.network = network;
+    this.provider = provider;
+    this.log = logger.child({ network });
+  }
+
+  public static async create(
+    context: Context,
+    network: string
+  ): Promise<Watchtower> {
+    const nodeUrl = await context.secrets.get(`NODE_URL_${network}`);
+    const provider = new ethers.providers.JsonRpcProvider(nodeUrl);
+    const { chainId } = await provider.getNetwork();
+    if (chainId.toString() !== network) {
+      throw new Error(
+        `Node at NODE_URL_${network} is on chain ${chainId}, expected ${network}`
+      );
+    }
+    return new Watchtower(context, network, provider);
+  }
+
+  public start() {
+    this.log.info("Watching for new blocks");
+    this.provider.on("block", (blockNumber: number) => {
+      this.enqueue(() => this.processUpTo(blockNumber));
+    });
+  }
+
+  /**
+   * Stop listening for new blocks and wait for any running action to finish
+   */
+  public async stop() {
+    this.stopped = true;
+    this.provider.removeAllListeners();
+    await this.queue;
+    this.log.info("Stopped", { blockNumber: this.lastBlock });
+  }
+
+  private enqueue(task: () => Promise<void>) {
+    this.queue = this.queue.then(task).catch((e) => {
+      this.log.error("Unhandled error", { error: e });
+    });
+  }
+
+  private async processUpTo(blockNumber: number) {
+    if (this.lastBlock === undefined) {
+      this.lastBlock = blockNumber - 1;
+    }
+    while (!this.stopped && this.lastBlock < blockNumber) {
+      await this.processBlock(this.lastBlock + 1);
+      this.lastBlock += 1;
+      lastBlockGauge.set({ network: this.network }, this.lastBlock);
+    }
+  }
+
+  private async processBlock(blockNumber: number) {
+    const block = await this.provider.getBlock(blockNumber);
+    // Only `GPv2Settlement` emits genuine trades
+    const logs = (
+      await Promise.all([
+        this.provider.getLogs({
+          blockHash: block.hash,
+          topics: [CONDITIONAL_ORDER_CREATED_TOPIC],
+        }),
+        this.provider.getLogs({
+          blockHash: block.hash,
+          address: SETTLEMENT,
+          topics: [TRADE_TOPIC],
+        }),
+      ])
+    )
+      .flat()
+      .sort((a, b) => a.logIndex - b.logIndex);
+
+    // Group the logs by transaction, in the order they were emitted
+    const transactions = new Map<string, ethers.providers.Log[]>();
+    for (const log of logs) {
+      const txLogs = transactions.get(log.transactionHash) ?? [];
+      txLogs.push(log);
+      transactions.set(log.transactionHash, txLogs);
+    }
+
+    for (const [hash, txLogs] of transactions.entries()) {
+      const event = this.transactionEvent(block, hash, txLogs);
+      if (txLogs.some((l) => l.topics[0] === CONDITIONAL_ORDER_CREATED_TOPIC)) {
+        await this.run(addContract, event);
+      }
+      if (txLogs.some((l) => l.topics[0] === TRADE_TOPIC)) {
+        await this.run(checkForSettlement, event);
+      }
+    }
+
+    const event: BlockEvent = {
+      network: this.network,
+      blockHash: block.hash,
+      blockNumber,
+    };
+    if (blockNumber % BLOCKS_PER_CHECK === 0) {
+      await this.run(checkForAndPlaceOrder, event);
+    }
+    if (blockNumber % BLOCKS_PER_RECONCILE === 0) {
+      await this.run(reconcileOrders, event);
+    }
+  }
+
+  private async run(action: ActionFn, event: BlockEvent | TransactionEvent) {
+    try {
+      await action(this.context, event);
+    } catch (e) {
+      this.log.error("Action failed", {
+        blockNumber: event.blockNumber,
+        error: e,
+      });
+    }
+  }
+
+  private transactionEvent(
+    block: ethers.providers.Block,
+    hash: string,
+    logs: ethers.providers.Log[]
+  ): TransactionEvent {
+    return {
+      network: this.network,
+      blockHash: block.hash,
+      blockNumber: block.number,
+      hash,
+      transactionHash: hash,
+      from: "",
+      logs: logs.map(({ address, topics, data }) => ({
+        address,
+        topics,
+        data,
+      })),
+      input: "",
+      value: "",
+      nonce: "",
+      gas: "",
+      gasUsed: "",
+      cumulativeGasUsed: "",
+      gasPrice: "",
+      gasTipCap: "",
+      gasFeeCap: "",
+    };
+  }
+}
+
+/**
+ * Serve the metrics of the actions in the Prometheus text format on `/metrics`
+ * @param port to listen on
+ * @returns the server
+ */
+export function serveMetrics(port: number): Server {
+  return createServer((req, res) => {
+    if (req.method !== "GET" || req.url !== "/metrics") {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    res.setHeader("Content-Type", "text/plain; version=0.0.4");
+    res.end(metrics.render());
+  }).listen(port);
+}
+
+/**
+ * Standalone entry point
+ *
+ * Usage: ts-node standalone.ts <network> [<network> ...]
+ *
+ * Each network requires a `NODE_URL_<network>` environment variable. The
+ * registry is persisted to `WATCHTOWER_STORAGE` (default `watchtower.json`), and
+ * metrics are served on `METRICS_PORT` (default 9464).
+ */
+async function main() {
+  const networks = process.argv.slice(2);
+  if (networks.length === 0) {
+    throw "Please specify at least one network (chain id) to watch";
+  }
+
+  const storage = await FileStorage.load(
+    process.env["WATCHTOWER_STORAGE"] ?? "watchtower.json"
+  );
+  const context = new LocalContext(storage, new EnvSecrets());
+
+  const watchtowers = await Promise.all(
+    networks.map((network) => Watchtower.create(context, network))
+  );
+  watchtowers.forEach((watchtower) => watchtower.start());
+
+  const port = Number(process.env["METRICS_PORT"] || DEFAULT_METRICS_PORT);
+  const server = serveMetrics(port);
+  logger.info("Serving metrics", { port });
+
+  const shutdown = async (signal: string) => {
+    logger.info("Shutting down", { signal });
+    server.close();
+    await Promise.all(watchtowers.map((watchtower) => watchtower.stop()));
+    process.exit(0);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    logger.error("Watchtower failed", { error: e });
+    process.exit(1);
+  });
+}
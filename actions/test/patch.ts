@@ -0,0 +1,25 @@
+/**
+ * Replace properties of an object, such as the methods of a class prototype,
+ * until the returned function restores them
+ * @param target object to patch
+ * @param fakes properties to replace
+ * @returns A function that restores the original properties
+ */
+export const patch = <T extends object>(
+  target: T,
+  fakes: Partial<T>
+): (() => void) => {
+  const originals = Object.keys(fakes).map(
+    (key) => [key, Object.getOwnPropertyDescriptor(target, key)] as const
+  );
+  Object.assign(target, fakes);
+  return () => {
+    for (const [key, descriptor] of originals) {
+      if (descriptor === undefined) {
+        Reflect.deleteProperty(target, key);
+      } else {
+        Object.defineProperty(target, key, descriptor);
+      }
+    }
+  };
+};
@@ -1,6 +1,6 @@
 import { TestBlockEvent, TestRuntime } from "@tenderly/actions-test";
 import { checkForAndPlaceOrder } from "../watch";
-import { ConditionalOrder, OrderStatus, Registry } from "../register";
+import { addConditionalOrder, Registry } from "../register";
 import { ethers } from "ethers";
 
 const main = async () => {
@@ -22,12 +22,7 @@ const main = async () => {
 
   // Register the contract that was passed in from the command line to be watched
   const registry = await Registry.load(testRuntime.context, testEvent.network);
-  registry.safeOrders.set(
-    safeUndertest,
-    new Set<ConditionalOrder>([
-      { payload, orders: new Map<string, OrderStatus>() },
-    ])
-  );
+  addConditionalOrder(registry, safeUndertest, payload);
   await registry.write();
 
   // run action
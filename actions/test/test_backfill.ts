@@ -0,0 +1,207 @@
+import { TestRuntime } from "@tenderly/actions-test";
+import { computeOrderUid } from "@cowprotocol/contracts";
+import { strict as assert } from "node:assert";
+import { BigNumber, ethers, utils } from "ethers";
+import { backfill, checkpointKey } from "../backfill";
+import { scanLogs } from "../logs";
+import { OrderStatus, Registry, SETTLEMENT } from "../register";
+import { twapCodec, twapPartOrder } from "../twap";
+import { ConditionalOrder__factory, GPv2Settlement__factory } from "../types";
+
+const SAFE = "0xdc8c452D81DC5E26A1A73999D84f2885E04E9AC3";
+// Fallback handler of `SAFE`, which emits `ConditionalOrderCreated`
+const HANDLER = "0xf3b277728b3fee749481eb3e0b3b48980dbbab78";
+const ROGUE = "0x0000000000000000000000000000000000000002";
+const TIMESTAMP = 1675076743;
+
+const twap = {
+  sellToken: "0x91056D4A53E1faa1A84306D4deAEc71085394bC8",
+  buyToken: "0x02ABBDbAaa7b1BB64B5c878f7ac17f8DDa169532",
+  receiver: ethers.constants.AddressZero,
+  partSellAmount: BigNumber.from(1000),
+  minPartLimit: BigNumber.from(1),
+  t0: BigNumber.from(TIMESTAMP),
+  n: BigNumber.from(6),
+  t: BigNumber.from(600),
+  span: BigNumber.from(0),
+};
+
+const conditionalOrderIface = ConditionalOrder__factory.createInterface();
+const settlementIface = GPv2Settlement__factory.createInterface();
+
+/**
+ * A log of the fake chain, in its own transaction
+ */
+const log = (
+  blockNumber: number,
+  address: string,
+  { topics, data }: { topics: string[]; data: string }
+): ethers.providers.Log => ({
+  blockNumber,
+  blockHash: utils.hexZeroPad(utils.hexlify(blockNumber), 32),
+  transactionIndex: 0,
+  removed: false,
+  address,
+  data,
+  topics,
+  transactionHash: utils.id(`${blockNumber}`),
+  logIndex: 0,
+});
+
+const trade = (blockNumber: number, orderUid: string) =>
+  log(
+    blockNumber,
+    SETTLEMENT,
+    settlementIface.encodeEventLog(settlementIface.getEvent("Trade"), [
+      SAFE,
+      twap.sellToken,
+      twap.buyToken,
+      990,
+      2,
+      10,
+      orderUid,
+    ])
+  );
+
+const main = async () => {
+  const testRuntime = new TestRuntime();
+  const payload = twapCodec.encode(twap);
+  const created = conditionalOrderIface.encodeEventLog(
+    conditionalOrderIface.getEvent("ConditionalOrderCreated"),
+    [SAFE, payload]
+  );
+  const partUid = computeOrderUid(
+    {
+      name: "Gnosis Protocol",
+      version: "v2",
+      chainId: 1,
+      verifyingContract: SETTLEMENT,
+    },
+    twapPartOrder(twap, 1),
+    SAFE
+  );
+  // an order of the Safe that is not a part of the TWAP
+  const otherUid = computeOrderUid(
+    {
+      name: "Gnosis Protocol",
+      version: "v2",
+      chainId: 1,
+      verifyingContract: SETTLEMENT,
+    },
+    { ...twapPartOrder(twap, 2), buyAmount: 2 },
+    SAFE
+  );
+
+  const logs = [
+    log(10, HANDLER, created),
+    // any contract may emit the event, naming any Safe
+    log(
+      11,
+      ROGUE,
+      conditionalOrderIface.encodeEventLog(
+        conditionalOrderIface.getEvent("ConditionalOrderCreated"),
+        [ROGUE, payload]
+      )
+    ),
+    trade(20, partUid),
+    trade(21, otherUid),
+  ];
+
+  // A provider serving the logs above, where `HANDLER` is the fallback handler of `SAFE`
+  const provider = {
+    getBlockNumber: async () => 100,
+    getLogs: async ({ fromBlock, toBlock, address, topics }: any) =>
+      logs.filter(
+        (l) =>
+          l.blockNumber >= fromBlock &&
+          l.blockNumber <= toBlock &&
+          (address === undefined || l.address === address) &&
+          l.topics[0] === topics[0]
+      ),
+    getBlock: async () => ({ timestamp: TIMESTAMP + 700 }),
+    getStorageAt: async (safe: string) =>
+      utils.hexZeroPad(
+        utils.getAddress(safe) === SAFE
+          ? HANDLER
+          : ethers.constants.AddressZero,
+        32
+      ),
+  } as unknown as ethers.providers.Provider;
+
+  await backfill(testRuntime.context, "1", provider, {
+    fromBlock: 0,
+    chunkSize: 15,
+  });
+
+  const registry = await Registry.load(testRuntime.context, "1");
+  assert.deepEqual(Array.from(registry.safeOrders.keys()), [SAFE]);
+  const [conditionalOrder] = Array.from(
+    registry.safeOrders.get(SAFE)?.values() ?? []
+  );
+  assert.equal(conditionalOrder.payload, payload);
+
+  // the fill of the part is recorded, although the watchtower never placed it
+  assert.deepEqual(Array.from(conditionalOrder.orders.keys()), [partUid]);
+  const record = conditionalOrder.orders.get(partUid);
+  assert.equal(record?.status, OrderStatus.SETTLING);
+  assert.deepEqual(record?.fill, {
+    blockNumber: 20,
+    blockHash: logs[2].blockHash,
+    transactionHash: logs[2].transactionHash,
+    timestamp: TIMESTAMP + 700,
+    sellAmount: "990",
+    buyAmount: "2",
+    feeAmount: "10",
+  });
+  assert.equal(
+    await testRuntime.context.storage.getStr(checkpointKey("1")),
+    "100"
+  );
+
+  // backfilling the same blocks again leaves the registry unchanged
+  await backfill(testRuntime.context, "1", provider, { fromBlock: 0 });
+  const again = await Registry.load(testRuntime.context, "1");
+  assert.equal(again.stringify(), registry.stringify());
+
+  // a node that refuses ranges of more than 8 blocks gets smaller chunks
+  const chunks: [number, number, number][] = [];
+  await scanLogs(
+    {
+      getLogs: async (filter: any) => {
+        if (filter.toBlock - filter.fromBlock >= 8) {
+          throw new Error("query returned more than 10000 results");
+        }
+        return provider.getLogs(filter);
+      },
+    } as unknown as ethers.providers.Provider,
+    [{ address: SETTLEMENT, topics: [logs[2].topics[0]] }],
+    0,
+    29,
+    async (fromBlock, toBlock, logs) => {
+      chunks.push([fromBlock, toBlock, logs.length]);
+    },
+    30
+  );
+  assert.deepEqual(chunks, [
+    [0, 7, 0],
+    [8, 15, 0],
+    [16, 23, 2],
+    [24, 29, 0],
+  ]);
+
+  // a range or chunk size that would never advance is rejected
+  for (const [fromBlock, toBlock, chunkSize] of [
+    [0, 29, 0],
+    [0, 29, -1],
+    [0, 29, NaN],
+    [-1, 29, 10],
+    [0, NaN, 10],
+  ]) {
+    await assert.rejects(
+      scanLogs(provider, [], fromBlock, toBlock, async () => {}, chunkSize),
+      /Invalid/
+    );
+  }
+};
+
+(async () => await main())();
@@ -0,0 +1,123 @@
+import { strict as assert } from "node:assert";
+import { BigNumber } from "ethers";
+import { Logger, LogLevel } from "../logger";
+import { instrument, metrics, MetricsRegistry } from "../metrics";
+
+/**
+ * Capture the lines logged while running `f`
+ */
+const captureLogs = async (f: () => Promise<void>): Promise<any[]> => {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (line: string) => lines.push(line);
+  try {
+    await f();
+  } finally {
+    console.log = log;
+  }
+  return lines.map((line) => JSON.parse(line));
+};
+
+const main = async () => {
+  // entries are JSON, with the context of the logger and its parents
+  const entries = await captureLogs(async () => {
+    const log = new Logger({ network: "1" }, LogLevel.INFO).child({
+      safe: "0xdc8c452D81DC5E26A1A73999D84f2885E04E9AC3",
+    });
+    log.debug("hidden");
+    log.warn("shown", {
+      orderUid: "0x01",
+      sellAmount: BigNumber.from("1000000000000000000000"),
+      error: new Error("boom"),
+    });
+  });
+  assert.equal(entries.length, 1);
+  assert.equal(entries[0].level, "warn");
+  assert.equal(entries[0].msg, "shown");
+  assert.equal(entries[0].network, "1");
+  assert.equal(entries[0].safe, "0xdc8c452D81DC5E26A1A73999D84f2885E04E9AC3");
+  assert.equal(entries[0].orderUid, "0x01");
+  assert.equal(entries[0].sellAmount, "1000000000000000000000");
+  assert.equal(entries[0].error, "boom");
+
+  // metrics are rendered in the Prometheus text format
+  const registry = new MetricsRegistry();
+  const counter = registry.counter("test_total", "A test counter");
+  counter.inc({ network: "1" });
+  counter.inc({ network: "1" }, 2);
+  registry.gauge("test_gauge", "A test gauge").set({ label: 'a"b' }, 1.5);
+  assert.equal(
+    registry.render(),
+    [
+      "# HELP test_total A test counter",
+      "# TYPE test_total counter",
+      'test_total{network="1"} 3',
+      "# HELP test_gauge A test gauge",
+      "# TYPE test_gauge gauge",
+      'test_gauge{label="a\\"b"} 1.5',
+      "",
+    ].join("\n")
+  );
+  assert.throws(() => registry.counter("test_total", "Again"));
+
+  // each run of an action is summarized, whether or not it throws
+  const action = instrument("testAction", async (_context, event, run) => {
+    run.checked = 3;
+    run.placed = 1;
+    run.skipped = 2;
+    if ((event as any).blockNumber === 2) {
+      throw new Error("failed");
+    }
+  });
+  const context = {} as any;
+  const summaries = await captureLogs(async () => {
+    await action(context, { network: "1", blockNumber: 1 } as any);
+    await assert.rejects(
+      action(context, { network: "1", blockNumber: 2 } as any)
+    );
+  });
+  assert.deepEqual(
+    summaries.map(({ msg, action, blockNumber, checked, placed, skipped }) => ({
+      msg,
+      action,
+      blockNumber,
+      checked,
+      placed,
+      skipped,
+    })),
+    [
+      {
+        msg: "Run finished",
+        action: "testAction",
+        blockNumber: 1,
+        checked: 3,
+        placed: 1,
+        skipped: 2,
+      },
+      {
+        msg: "Run failed",
+        action: "testAction",
+        blockNumber: 2,
+        checked: 3,
+        placed: 1,
+        skipped: 2,
+      },
+    ]
+  );
+  assert.equal(summaries[1].error, "failed");
+
+  const rendered = metrics.render();
+  assert(
+    rendered.includes(
+      'watchtower_runs_total{network="1",action="testAction"} 2'
+    )
+  );
+  assert(
+    rendered.includes(
+      'watchtower_run_failures_total{network="1",action="testAction"} 1'
+    )
+  );
+  assert(rendered.includes('watchtower_orders_placed_total{network="1"} 2'));
+};
+
+(async () => await main())();
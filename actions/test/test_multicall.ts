@@ -0,0 +1,103 @@
+import { strict as assert } from "node:assert";
+import { ethers, utils } from "ethers";
+import { aggregate, MULTICALL3 } from "../multicall";
+
+const multicallIface = new utils.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+]);
+
+// Calls to this target revert
+const REVERTS = "0x0000000000000000000000000000000000000001";
+// Calls to this target use all the gas, reverting the whole `aggregate3`
+const GAS_BOMB = "0x0000000000000000000000000000000000000002";
+const REVERT_DATA = "0xdeadbeef";
+
+/**
+ * A provider that runs `aggregate3`, where each call returns its call data
+ * (except for the targets above), recording the size of each batch
+ */
+const fakeProvider = (batches: number[]) =>
+  ({
+    call: async ({ to, data }: { to: string; data: string }) => {
+      assert.equal(to, MULTICALL3);
+      const [calls] = multicallIface.decodeFunctionData("aggregate3", data);
+      batches.push(calls.length);
+      if (calls.some(({ target }: any) => target === GAS_BOMB)) {
+        throw Object.assign(new Error("out of gas"), {
+          code: ethers.errors.CALL_EXCEPTION,
+          data: "0x",
+        });
+      }
+      return multicallIface.encodeFunctionResult("aggregate3", [
+        calls.map(({ target, callData }: any) =>
+          target === REVERTS
+            ? { success: false, returnData: REVERT_DATA }
+            : { success: true, returnData: callData }
+        ),
+      ]);
+    },
+  } as unknown as ethers.providers.Provider);
+
+const call = (target: string, i: number) => ({
+  target,
+  callData: utils.hexZeroPad(utils.hexlify(i), 4),
+});
+
+const main = async () => {
+  // calls that succeed and fail in a single batch
+  const batches: number[] = [];
+  const calls = [
+    call(MULTICALL3, 0),
+    call(REVERTS, 1),
+    call(MULTICALL3, 2),
+    call(REVERTS, 3),
+  ];
+  assert.deepEqual(await aggregate(fakeProvider(batches), calls), [
+    { success: true, returnData: calls[0].callData },
+    { success: false, returnData: REVERT_DATA },
+    { success: true, returnData: calls[2].callData },
+    { success: false, returnData: REVERT_DATA },
+  ]);
+  assert.deepEqual(batches, [4]);
+
+  // more calls than fit in a batch are split into several
+  const many = Array.from({ length: 250 }, (_, i) => call(MULTICALL3, i));
+  const manyBatches: number[] = [];
+  const results = await aggregate(fakeProvider(manyBatches), many);
+  assert.deepEqual(
+    results.map(({ returnData }) => returnData),
+    many.map(({ callData }) => callData)
+  );
+  assert.deepEqual(manyBatches, [100, 100, 50]);
+
+  // a batch that reverts is split until the call that reverts it is on its
+  // own, and the results of the other calls are kept
+  const bombed = [
+    call(MULTICALL3, 0),
+    call(REVERTS, 1),
+    call(MULTICALL3, 2),
+    call(GAS_BOMB, 3),
+    call(MULTICALL3, 4),
+  ];
+  const bombedBatches: number[] = [];
+  assert.deepEqual(await aggregate(fakeProvider(bombedBatches), bombed), [
+    { success: true, returnData: bombed[0].callData },
+    { success: false, returnData: REVERT_DATA },
+    { success: true, returnData: bombed[2].callData },
+    { success: false, returnData: "0x" },
+    { success: true, returnData: bombed[4].callData },
+  ]);
+  assert.deepEqual(bombedBatches, [5, 3, 2, 1, 1]);
+
+  // other errors are not due to the calls, and are thrown
+  const unreachable = {
+    call: async () => {
+      throw Object.assign(new Error("connection refused"), {
+        code: ethers.errors.SERVER_ERROR,
+      });
+    },
+  } as unknown as ethers.providers.Provider;
+  await assert.rejects(aggregate(unreachable, calls), /connection refused/);
+};
+
+(async () => await main())();
@@ -0,0 +1,250 @@
+import { TestRuntime } from "@tenderly/actions-test";
+import { strict as assert } from "node:assert";
+import { createServer, IncomingHttpHeaders } from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  deliver,
+  LifecycleEvent,
+  LifecycleEventType,
+  loadWebhooks,
+  notify,
+  SIGNATURE_HEADER,
+  signBody,
+} from "../notify";
+import { lifecycleEvents, snapshot } from "../lifecycle";
+import {
+  archiveConditionalOrder,
+  ConditionalOrderStatus,
+  OrderStatus,
+  Registry,
+} from "../register";
+
+const SAFE = "0xdc8c452D81DC5E26A1A73999D84f2885E04E9AC3";
+const OTHER_SAFE = "0x0000000000000000000000000000000000000001";
+
+const event = (safe: string, type: LifecycleEventType): LifecycleEvent => ({
+  type,
+  network: "1",
+  safe,
+  conditionalOrderHash:
+    "0x6070b52cef3c1a6dd0070bd7382b32418b66dc333bf36b1e7ae28f6d7b287f07",
+  orderType: "twap",
+  part: 1,
+  orderUid: "0x01",
+  sellAmount: "1000",
+  buyAmount: "1",
+  blockNumber: 1,
+  timestamp: 1,
+});
+
+const main = async () => {
+  // A local receiver that fails the first request with a 500
+  const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+  let requests = 0;
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests += 1;
+      if (requests === 1) {
+        res.statusCode = 500;
+      } else {
+        received.push({ headers: req.headers, body });
+      }
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    // retried after the 500, and signed
+    const placed = event(SAFE, LifecycleEventType.ORDER_PLACED);
+    assert.equal(await deliver({ url, secret: "secret" }, placed, 10), true);
+    assert.equal(requests, 2);
+    assert.deepEqual(JSON.parse(received[0].body), placed);
+    assert.equal(
+      received[0].headers[SIGNATURE_HEADER.toLowerCase()],
+      signBody(received[0].body, "secret")
+    );
+
+    // only events of subscribed Safes and types are posted, without a signature
+    received.length = 0;
+    await notify(
+      [
+        {
+          url,
+          safes: [SAFE.toLowerCase()],
+          events: [LifecycleEventType.ORDER_FILLED],
+        },
+      ],
+      [
+        event(SAFE, LifecycleEventType.ORDER_FILLED),
+        event(SAFE, LifecycleEventType.ORDER_EXPIRED),
+        event(OTHER_SAFE, LifecycleEventType.ORDER_FILLED),
+      ]
+    );
+    assert.equal(received.length, 1);
+    assert.equal(JSON.parse(received[0].body).type, "order.filled");
+    assert.equal(
+      received[0].headers[SIGNATURE_HEADER.toLowerCase()],
+      undefined
+    );
+
+    // client errors are not retried
+    server.removeAllListeners("request");
+    server.on("request", (_, res) => {
+      requests += 1;
+      res.statusCode = 404;
+      res.end();
+    });
+    requests = 0;
+    assert.equal(await deliver({ url: `${url}/missing` }, placed, 10), false);
+    assert.equal(requests, 1);
+
+    // the events of each conditional order are posted in order, and those of
+    // different conditional orders at once
+    const posted: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    server.removeAllListeners("request");
+    server.on("request", (req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        setTimeout(() => {
+          const { conditionalOrderHash, type } = JSON.parse(body);
+          posted.push(`${conditionalOrderHash}:${type}`);
+          inFlight -= 1;
+          res.end();
+        }, 50);
+      });
+    });
+    const other = (type: LifecycleEventType): LifecycleEvent => ({
+      ...event(SAFE, type),
+      conditionalOrderHash: "0x02",
+      orderUid: "0x02",
+    });
+    await notify(
+      [{ url }],
+      [
+        event(SAFE, LifecycleEventType.ORDER_PLACED),
+        other(LifecycleEventType.ORDER_PLACED),
+        event(SAFE, LifecycleEventType.ORDER_FILLED),
+        other(LifecycleEventType.ORDER_EXPIRED),
+      ]
+    );
+    assert.equal(maxInFlight, 2);
+    const hash = placed.conditionalOrderHash;
+    assert.deepEqual(
+      posted.filter((p) => p.startsWith(hash)),
+      [`${hash}:order.placed`, `${hash}:order.filled`]
+    );
+    assert.deepEqual(
+      posted.filter((p) => p.startsWith("0x02")),
+      ["0x02:order.placed", "0x02:order.expired"]
+    );
+
+    // a webhook that never responds holds up the action for the budget at most
+    server.removeAllListeners("request");
+    const started = Date.now();
+    await notify(
+      [{ url }],
+      [
+        event(SAFE, LifecycleEventType.ORDER_PLACED),
+        event(SAFE, LifecycleEventType.ORDER_FILLED),
+      ],
+      200
+    );
+    assert(Date.now() - started < 1000, "Delivery was not cut short");
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+
+  // a blank `WEBHOOKS` secret configures no webhooks
+  const secret = (value: string) => {
+    const runtime = new TestRuntime();
+    runtime.context.secrets.put("WEBHOOKS", value);
+    return runtime.context;
+  };
+  for (const value of ["", "  "]) {
+    assert.deepEqual(await loadWebhooks(secret(value)), []);
+  }
+  assert.deepEqual(await loadWebhooks(secret(`[{"url": "${url}"}]`)), [
+    { url },
+  ]);
+  await assert.rejects(loadWebhooks(secret("{}")));
+
+  // a fill that was reorged out, and conditional orders that ended, are notified
+  const settling = {
+    status: OrderStatus.SETTLING,
+    attempts: 1,
+    fill: {
+      blockNumber: 1,
+      blockHash: "0x01",
+      transactionHash: "0x02",
+      sellAmount: "1000",
+      buyAmount: "1",
+      feeAmount: "0",
+    },
+  };
+  const registry = new Registry(
+    new Map([
+      [
+        SAFE,
+        new Map([
+          ["0xh1", { payload: "0x", orders: new Map([["0x01", settling]]) }],
+          ["0xh2", { payload: "0x", orders: new Map() }],
+          ["0xh3", { payload: "0x", orders: new Map() }],
+        ]),
+      ],
+    ]),
+    new TestRuntime().context.storage,
+    "1"
+  );
+  archiveConditionalOrder(
+    registry,
+    SAFE,
+    "0xh3",
+    ConditionalOrderStatus.EXPIRED,
+    1
+  );
+  const before = snapshot(registry);
+  registry.safeOrders.get(SAFE)!.get("0xh1")!.orders.set("0x01", {
+    status: OrderStatus.SUBMITTED,
+    attempts: 1,
+  });
+  archiveConditionalOrder(
+    registry,
+    SAFE,
+    "0xh2",
+    ConditionalOrderStatus.CANCELLED,
+    2
+  );
+  assert.deepEqual(
+    lifecycleEvents(registry, before, 2).map(
+      ({ type, conditionalOrderHash, orderUid }) => ({
+        type,
+        conditionalOrderHash,
+        orderUid,
+      })
+    ),
+    [
+      {
+        type: LifecycleEventType.ORDER_REORGED,
+        conditionalOrderHash: "0xh1",
+        orderUid: "0x01",
+      },
+      {
+        type: LifecycleEventType.CONDITIONAL_ORDER_CANCELLED,
+        conditionalOrderHash: "0xh2",
+        orderUid: undefined,
+      },
+    ]
+  );
+};
+
+(async () => await main())();
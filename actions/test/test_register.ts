@@ -4,17 +4,234 @@ import {
   TestRuntime,
 } from "@tenderly/actions-test";
 import { strict as assert } from "node:assert";
+import { ethers, utils } from "ethers";
 import {
   addContract,
+  archiveConditionalOrder,
   ConditionalOrder,
+  ConditionalOrderStatus,
+  conditionalOrderHash,
+  OrderRecord,
   OrderStatus,
+  ownerKey,
+  Registry,
+  REGISTRY_VERSION,
   replacer,
-  reviver,
   storageKey,
 } from "../register";
+import { patch } from "./patch";
 
-const main = async () => {
+// Fallback handler of the Safes in the test, which emits `ConditionalOrderCreated`
+const HANDLER = "0xf3b277728b3fee749481eb3e0b3b48980dbbab78";
+const SAFE = "0xdc8c452D81DC5E26A1A73999D84f2885E04E9AC3";
+
+/**
+ * Registries stored under a single key by earlier versions are split by owner
+ */
+const testMigration = async () => {
+  const [payload, otherPayload] = ["0x01", "0x02"];
+  const hash = conditionalOrderHash(payload, "1");
+  const otherHash = conditionalOrderHash(otherPayload, "1");
+
+  // Before version 2, the registry was a `Map` of `Set`s, where owners were
+  // not checksummed and records could be bare statuses
+  const mapRuntime = new TestRuntime();
+  await mapRuntime.context.storage.putStr(
+    storageKey("1"),
+    JSON.stringify(
+      new Map([
+        [
+          SAFE.toLowerCase(),
+          new Set([
+            {
+              payload,
+              orders: new Map<string, any>([["0xa1", OrderStatus.FILLED]]),
+            },
+          ]),
+        ],
+        [
+          SAFE,
+          new Set([
+            {
+              payload,
+              orders: new Map<string, any>([
+                ["0xa2", { status: OrderStatus.SUBMITTED, attempts: 3 }],
+              ]),
+            },
+          ]),
+        ],
+      ]),
+      replacer
+    )
+  );
+  const fromMap = await Registry.load(mapRuntime.context, "1");
+  assert.deepEqual(Array.from(fromMap.safeOrders.keys()), [SAFE]);
+  assert.deepEqual(Array.from(fromMap.safeOrders.get(SAFE)!.keys()), [hash]);
+  assert.deepEqual(
+    Object.fromEntries(fromMap.safeOrders.get(SAFE)!.get(hash)!.orders),
+    {
+      "0xa1": { status: OrderStatus.FILLED, attempts: 1 },
+      "0xa2": { status: OrderStatus.SUBMITTED, attempts: 3 },
+    }
+  );
+
+  // In version 2, the active and archived conditional orders of all owners
+  // were under one key each
+  const runtime = new TestRuntime();
+  const storage = runtime.context.storage;
+  await storage.putStr(
+    storageKey("1"),
+    JSON.stringify({
+      version: 2,
+      owners: { [SAFE]: { [hash]: { payload, orders: {} } } },
+    })
+  );
+  await storage.putStr(
+    "CONDITIONAL_ORDER_ARCHIVE_1",
+    JSON.stringify({
+      version: 2,
+      owners: {
+        [SAFE]: {
+          [otherHash]: {
+            payload: otherPayload,
+            orders: {},
+            status: ConditionalOrderStatus.CANCELLED,
+            archivedAt: 1,
+            archivedBlock: 1,
+          },
+        },
+      },
+    })
+  );
+  const registry = await Registry.load(runtime.context, "1");
+  assert.deepEqual(Array.from(registry.safeOrders.get(SAFE)!.keys()), [hash]);
+  assert.deepEqual(Array.from(registry.archived(SAFE).keys()), [otherHash]);
+
+  await registry.write();
+  const index = JSON.parse(await storage.getStr(storageKey("1")));
+  assert.equal(index.version, REGISTRY_VERSION);
+  assert.deepEqual(index.owners, [SAFE]);
+  const owner = JSON.parse(await storage.getStr(ownerKey("1", SAFE)));
+  assert.deepEqual(Object.keys(owner.conditionalOrders), [hash]);
+  assert.deepEqual(Object.keys(owner.archived), [otherHash]);
+  assert.equal(await storage.getStr("CONDITIONAL_ORDER_ARCHIVE_1"), "");
+
+  // the migrated registry loads as it was
+  const reloaded = await Registry.load(runtime.context, "1");
+  assert.equal(reloaded.stringify(), registry.stringify());
+  assert.deepEqual(Array.from(reloaded.archived(SAFE).keys()), [otherHash]);
+};
+
+/**
+ * Two actions that load the registry, and write it one after the other, both
+ * keep their changes
+ */
+const testMerge = async () => {
+  const runtime = new TestRuntime();
+  const [kept, archived, removed, added] = ["0x01", "0x02", "0x03", "0x04"];
+  const hashes = [kept, archived, removed, added].map((payload) =>
+    conditionalOrderHash(payload, "1")
+  );
+  const [keptHash, archivedHash, removedHash, addedHash] = hashes;
+  const record = (status: OrderStatus): OrderRecord => ({
+    status,
+    attempts: 1,
+  });
+  const fill = {
+    blockNumber: 10,
+    blockHash: "0x10",
+    transactionHash: "0x11",
+    sellAmount: "1",
+    buyAmount: "1",
+    feeAmount: "0",
+  };
+
+  const base = await Registry.load(runtime.context, "1");
+  base.safeOrders.set(
+    SAFE,
+    new Map(
+      [kept, archived, removed].map((payload, i) => [
+        hashes[i],
+        {
+          payload,
+          orders: new Map([["0xa1", record(OrderStatus.SUBMITTED)]]),
+        },
+      ])
+    )
+  );
+  await base.write();
+
+  const first = await Registry.load(runtime.context, "1");
+  const second = await Registry.load(runtime.context, "1");
+
+  // The first action confirms a fill, posts an order, archives a conditional
+  // order and removes another
+  const firstOrders = first.safeOrders.get(SAFE)!;
+  firstOrders.get(keptHash)!.orders.set("0xa1", {
+    ...record(OrderStatus.FILLED),
+    fill,
+  });
+  firstOrders.get(keptHash)!.orders.set("0xb1", record(OrderStatus.SUBMITTED));
+  archiveConditionalOrder(
+    first,
+    SAFE,
+    archivedHash,
+    ConditionalOrderStatus.CANCELLED,
+    10
+  );
+  firstOrders.delete(removedHash);
+  await first.write();
+
+  // The second action, unaware of the first, fails to post the filled order,
+  // posts other orders and adds a conditional order
+  const secondOrders = second.safeOrders.get(SAFE)!;
+  secondOrders
+    .get(keptHash)!
+    .orders.set("0xa1", record(OrderStatus.FAILED_SUBMISSION));
+  secondOrders.get(keptHash)!.orders.set("0xc1", record(OrderStatus.SUBMITTED));
+  secondOrders
+    .get(archivedHash)!
+    .orders.set("0xc2", record(OrderStatus.SUBMITTED));
+  secondOrders.set(addedHash, { payload: added, orders: new Map() });
+  await second.write();
+
+  const merged = await Registry.load(runtime.context, "1");
+  const mergedOrders = merged.safeOrders.get(SAFE)!;
+  assert.deepEqual(
+    Array.from(mergedOrders.keys()).sort(),
+    [keptHash, addedHash].sort()
+  );
+  const keptOrders = mergedOrders.get(keptHash)!.orders;
+  assert.deepEqual(
+    Array.from(keptOrders.entries()).map(([uid, { status }]) => [uid, status]),
+    [
+      // a confirmed fill is final
+      ["0xa1", OrderStatus.FILLED],
+      ["0xb1", OrderStatus.SUBMITTED],
+      ["0xc1", OrderStatus.SUBMITTED],
+    ]
+  );
+  assert.deepEqual(keptOrders.get("0xa1")?.fill, fill);
+  const archivedOrder = merged.archived(SAFE).get(archivedHash);
+  assert.equal(archivedOrder?.status, ConditionalOrderStatus.CANCELLED);
+  assert.deepEqual(Array.from(archivedOrder!.orders.keys()).sort(), [
+    "0xa1",
+    "0xc2",
+  ]);
+  assert.equal(merged.archived(SAFE).has(removedHash), false);
+  const owner = JSON.parse(
+    await runtime.context.storage.getStr(ownerKey("1", SAFE))
+  );
+  assert.equal(owner.revision, 3);
+};
+
+/**
+ * Conditional orders created by Safes whose fallback handler emitted the event
+ * are indexed once, migrating a legacy registry
+ */
+const testAddContract = async () => {
   const testRuntime = new TestRuntime();
+  testRuntime.context.secrets.put("NODE_URL_1", "http://127.0.0.1:8545");
 
   // https://goerli.etherscan.io/tx/0x1fbf8f710a8e55ad3ce315f3f5569b06c5c45bfb20199daae40df5149792f85d#eventlog
   const alreadyIndexedLog = new TestLog();
@@ -33,17 +250,30 @@ const main = async () => {
   newLog.data =
     "0x0000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000012000000000000000000000000002abbdbaaa7b1bb64b5c878f7ac17f8dda16953200000000000000000000000091056d4a53e1faa1a84306d4deaec71085394bc8000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000908f6f24ba51aaaaa00000000000000000000000000000000000000000000000002501e734690aaaa0000000000000000000000000000000000000000000000000000000063d7a487000000000000000000000000000000000000000000000000000000000000000600000000000000000000000000000000000000000000000000000000000002580000000000000000000000000000000000000000000000000000000000000000";
 
+  // Any contract may emit the event, naming any Safe
+  const rogueLog = new TestLog();
+  rogueLog.topics = [
+    newLog.topics[0],
+    "0x0000000000000000000000000000000000000000000000000000000000000001",
+  ];
+  rogueLog.data = newLog.data;
+  rogueLog.address = "0x0000000000000000000000000000000000000002";
+
+  alreadyIndexedLog.address = HANDLER;
+  newLog.address = HANDLER;
+
   const event = new TestTransactionEvent();
   event.logs.push(alreadyIndexedLog);
   event.logs.push(newLog);
-  event.network = "mainnet";
+  event.logs.push(rogueLog);
+  event.network = "1";
 
   const safeOrders = new Map<string, Set<ConditionalOrder>>();
   const conditionalOrderSet = new Set<ConditionalOrder>();
   conditionalOrderSet.add({
     payload:
       "0x00000000000000000000000091056d4a53e1faa1a84306d4deaec71085394bc800000000000000000000000002abbdbaaa7b1bb64b5c878f7ac17f8dda169532000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000908f6f24ba51aaaaa00000000000000000000000000000000000000000000000002501e734690aaaa0000000000000000000000000000000000000000000000000000000063d7a487000000000000000000000000000000000000000000000000000000000000000600000000000000000000000000000000000000000000000000000000000002580000000000000000000000000000000000000000000000000000000000000000",
-    orders: new Map<string, OrderStatus>(),
+    orders: new Map<string, OrderRecord>(),
   });
   safeOrders.set(
     "0xdc8c452D81DC5E26A1A73999D84f2885E04E9AC3",
@@ -56,11 +286,18 @@ const main = async () => {
 
   await testRuntime.execute(addContract, event);
 
-  const storage: Map<string, Set<ConditionalOrder>> = JSON.parse(
-    await testRuntime.context.storage.getStr(storageKey(event.network)),
-    reviver
+  // The legacy registry is migrated to the versioned format
+  const stored = JSON.parse(
+    await testRuntime.context.storage.getStr(storageKey(event.network))
   );
-  console.log(storage);
+  assert(stored.version === REGISTRY_VERSION, "Registry was not migrated");
+
+  // Re-emitted events do not add duplicate conditional orders
+  await testRuntime.execute(addContract, event);
+
+  const registry = await Registry.load(testRuntime.context, event.network);
+  console.log(registry.stringify());
+  const storage = registry.safeOrders;
   assert(storage.size == 2, "Incorrect amount of contracts indexed");
   assert(
     storage.has("0xdc8c452D81DC5E26A1A73999D84f2885E04E9AC3"),
@@ -70,6 +307,26 @@ const main = async () => {
     storage.has("0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE"),
     "Missing new contract"
   );
+  for (const [owner, conditionalOrders] of storage.entries()) {
+    assert(
+      conditionalOrders.size == 1,
+      `Duplicate conditional orders for ${owner}`
+    );
+  }
+};
+
+const main = async () => {
+  // Every Safe has `HANDLER` as its fallback handler
+  const restore = patch(ethers.providers.JsonRpcProvider.prototype, {
+    getStorageAt: async () => utils.hexZeroPad(HANDLER, 32),
+  });
+  try {
+    await testAddContract();
+  } finally {
+    restore();
+  }
+  await testMigration();
+  await testMerge();
 };
 
 (async () => await main())();
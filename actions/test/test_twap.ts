@@ -0,0 +1,130 @@
+import { strict as assert } from "node:assert";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { BigNumber, constants } from "ethers";
+import {
+  calculateValidTo,
+  decodeTwap,
+  TWAPData,
+  twapSchedule,
+  TWAPStatus,
+  twapCodec,
+  validateTwap,
+} from "../twap";
+import { detectCodec } from "../codecs";
+
+// Generated by `script/generate_TWAPVectors.s.sol` from the Solidity libraries
+const VECTORS = JSON.parse(
+  readFileSync(join(__dirname, "../../test/vectors/twap.json"), "utf8")
+);
+
+const errorNameOf = (fn: () => void): string | null => {
+  try {
+    fn();
+    return null;
+  } catch (e: any) {
+    return e.errorName;
+  }
+};
+
+const main = async () => {
+  for (const v of VECTORS.validate) {
+    const twap: TWAPData = {
+      sellToken: v.sellToken,
+      buyToken: v.buyToken,
+      receiver: constants.AddressZero,
+      partSellAmount: BigNumber.from(v.partSellAmount),
+      minPartLimit: BigNumber.from(v.minPartLimit),
+      t0: BigNumber.from(v.t0),
+      n: BigNumber.from(v.n),
+      t: BigNumber.from(v.t),
+      span: BigNumber.from(v.span),
+    };
+    assert.equal(
+      errorNameOf(() => validateTwap(twap)),
+      v.error,
+      `validate mismatch for ${JSON.stringify(v)}`
+    );
+  }
+
+  for (const v of VECTORS.calculateValidTo) {
+    let validTo: number | null = null;
+    const error = errorNameOf(() => {
+      validTo = calculateValidTo(
+        BigNumber.from(v.startTime),
+        BigNumber.from(v.numParts),
+        BigNumber.from(v.frequency),
+        BigNumber.from(v.span),
+        v.timestamp
+      );
+    });
+    assert.equal(error, v.error, `error mismatch for ${JSON.stringify(v)}`);
+    assert.equal(
+      validTo,
+      v.validTo,
+      `validTo mismatch for ${JSON.stringify(v)}`
+    );
+  }
+
+  // https://goerli.etherscan.io/tx/0x1fbf8f710a8e55ad3ce315f3f5569b06c5c45bfb20199daae40df5149792f85d#eventlog
+  const payload =
+    "0x00000000000000000000000091056d4a53e1faa1a84306d4deaec71085394bc800000000000000000000000002abbdbaaa7b1bb64b5c878f7ac17f8dda169532000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000908f6f24ba51aaaaa00000000000000000000000000000000000000000000000002501e734690aaaa0000000000000000000000000000000000000000000000000000000063d7a487000000000000000000000000000000000000000000000000000000000000000600000000000000000000000000000000000000000000000000000000000002580000000000000000000000000000000000000000000000000000000000000000";
+  const twap = decodeTwap(payload);
+  validateTwap(twap);
+  const t0 = twap.t0.toNumber();
+
+  assert.deepEqual(twapSchedule(twap, t0 - 1), {
+    status: TWAPStatus.NOT_STARTED,
+    nextWindowOpen: t0,
+    expiry: BigNumber.from(t0 + 6 * 600),
+  });
+  assert.deepEqual(twapSchedule(twap, t0 + 650), {
+    status: TWAPStatus.ACTIVE,
+    part: 1,
+    validTo: t0 + 1199,
+    nextWindowOpen: t0 + 1200,
+    expiry: BigNumber.from(t0 + 6 * 600),
+  });
+  assert.deepEqual(twapSchedule(twap, t0 + 5 * 600), {
+    status: TWAPStatus.ACTIVE,
+    part: 5,
+    validTo: t0 + 6 * 600 - 1,
+    nextWindowOpen: undefined,
+    expiry: BigNumber.from(t0 + 6 * 600),
+  });
+  assert.deepEqual(twapSchedule(twap, t0 + 6 * 600), {
+    status: TWAPStatus.EXPIRED,
+    expiry: BigNumber.from(t0 + 6 * 600),
+  });
+  assert.equal(
+    twapSchedule({ ...twap, span: BigNumber.from(60) }, t0 + 61).status,
+    TWAPStatus.OUTSIDE_SPAN
+  );
+
+  // the expiry of the longest TWAP does not fit in a `number`
+  const longest = {
+    ...twap,
+    n: BigNumber.from(2).pow(32).sub(1),
+    t: BigNumber.from(365 * 24 * 60 * 60),
+  };
+  validateTwap(longest);
+  assert.deepEqual(twapSchedule(longest, t0 + 650), {
+    status: TWAPStatus.ACTIVE,
+    part: 0,
+    validTo: t0 + 365 * 24 * 60 * 60 - 1,
+    nextWindowOpen: t0 + 365 * 24 * 60 * 60,
+    expiry: longest.t0.add(longest.n.mul(longest.t)),
+  });
+  assert.equal(
+    twapCodec.notTradeable?.({ ...longest, t0: BigNumber.from(t0 + 1) }, t0),
+    `${TWAPStatus.NOT_STARTED}, next window opens at ${t0 + 1}`
+  );
+
+  // the codec round-trips the payload, and is detected from it
+  assert.equal(twapCodec.encode(twap), payload);
+  assert.equal(detectCodec(payload)?.codec, twapCodec);
+  assert.equal(detectCodec("0x"), undefined);
+  assert.equal(twapCodec.notTradeable?.(twap, t0 + 650), undefined);
+};
+
+(async () => await main())();
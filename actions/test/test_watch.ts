@@ -0,0 +1,512 @@
+import {
+  TestBlockEvent,
+  TestLog,
+  TestRuntime,
+  TestTransactionEvent,
+} from "@tenderly/actions-test";
+import { computeOrderUid } from "@cowprotocol/contracts";
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import { strict as assert } from "node:assert";
+import { BigNumber, ethers, utils } from "ethers";
+import { OrderRecord, OrderStatus, Registry, SETTLEMENT } from "../register";
+import { twapCodec, twapPartOrder, twapPartValidTo } from "../twap";
+import { ConditionalOrder__factory, GPv2Settlement__factory } from "../types";
+import {
+  ChainContext,
+  checkForSettlement,
+  classifyOrderbookError,
+  confirmFills,
+  reconcileOrders,
+  SubmissionError,
+} from "../watch";
+import { patch } from "./patch";
+
+const SAFE = "0xdc8c452D81DC5E26A1A73999D84f2885E04E9AC3";
+
+/**
+ * An error as thrown by `axios` for a response of the orderbook
+ */
+const apiError = (status: number, errorType?: string) => ({
+  response: {
+    status,
+    data:
+      errorType === undefined
+        ? undefined
+        : { errorType, description: `${errorType} description` },
+  },
+});
+
+/**
+ * A successful response of the orderbook, as returned by an `axios` adapter
+ */
+const response = <T>(
+  config: AxiosRequestConfig,
+  data: T
+): AxiosResponse<T> => ({
+  data,
+  status: 200,
+  statusText: "OK",
+  headers: {},
+  config,
+});
+
+/**
+ * The receipt of a settlement in a block, trading the orders
+ */
+const receipt = (
+  transactionHash: string,
+  blockNumber: number,
+  orderUids: string[]
+): ethers.providers.TransactionReceipt =>
+  ({
+    transactionHash,
+    blockNumber,
+    blockHash: utils.id(`block ${blockNumber}`),
+    status: 1,
+    logs: orderUids.map((orderUid) => {
+      const iface = GPv2Settlement__factory.createInterface();
+      return {
+        address: SETTLEMENT,
+        ...iface.encodeEventLog(iface.getEvent("Trade"), [
+          SAFE,
+          ethers.constants.AddressZero,
+          ethers.constants.AddressZero,
+          1,
+          1,
+          0,
+          orderUid,
+        ]),
+      };
+    }),
+  } as unknown as ethers.providers.TransactionReceipt);
+
+/**
+ * A settling order, filled in a transaction in a block
+ */
+const settling = (
+  transactionHash: string,
+  blockNumber: number
+): OrderRecord => ({
+  status: OrderStatus.SETTLING,
+  attempts: 1,
+  fill: {
+    blockNumber,
+    blockHash: utils.id(`block ${blockNumber}`),
+    transactionHash,
+    sellAmount: "1",
+    buyAmount: "1",
+    feeAmount: "0",
+  },
+});
+
+const testConfirmations = async () => {
+  const testRuntime = new TestRuntime();
+  testRuntime.context.secrets.put("NODE_URL_1", "http://127.0.0.1:8545");
+  const confirmations = async (value?: string) => {
+    if (value !== undefined) {
+      testRuntime.context.secrets.put("CONFIRMATIONS_1", value);
+    }
+    return (await ChainContext.create(testRuntime.context, "1")).confirmations;
+  };
+
+  assert.equal(await confirmations(), 12);
+  assert.equal(await confirmations("3"), 3);
+  assert.equal(await confirmations(" 64 "), 64);
+  for (const invalid of ["", " ", "0", "-1", "1.5", "abc", "3 blocks"]) {
+    assert.equal(await confirmations(invalid), 12, `"${invalid}"`);
+  }
+};
+
+/**
+ * Any contract may emit a `Trade` naming a Safe, but only those of
+ * `GPv2Settlement` are fills
+ */
+const testCheckForSettlement = async () => {
+  const testRuntime = new TestRuntime();
+  const registry = new Registry(
+    new Map([
+      [
+        SAFE,
+        new Map([
+          [
+            "0xh1",
+            {
+              payload: "0x",
+              orders: new Map([
+                ["0x01", { status: OrderStatus.SUBMITTED, attempts: 1 }],
+              ]),
+            },
+          ],
+        ]),
+      ],
+    ]),
+    testRuntime.context.storage,
+    "1"
+  );
+  await registry.write();
+
+  const [tradeLog] = receipt("0xt1", 10, ["0x01"]).logs;
+  const rogueLog = new TestLog();
+  rogueLog.address = "0x0000000000000000000000000000000000000002";
+  rogueLog.topics = tradeLog.topics;
+  rogueLog.data = tradeLog.data;
+  const event = new TestTransactionEvent();
+  event.network = "1";
+  event.blockNumber = 10;
+  event.logs.push(rogueLog);
+  await testRuntime.execute(checkForSettlement, event);
+
+  const after = await Registry.load(testRuntime.context, "1");
+  const record = after.safeOrders.get(SAFE)?.get("0xh1")?.orders.get("0x01");
+  assert.equal(record?.status, OrderStatus.SUBMITTED);
+  assert.equal(record?.fill, undefined);
+};
+
+const testConfirmFills = async () => {
+  const [filled, reorged, moved, failed, lagging, missing] = [
+    "0x01",
+    "0x02",
+    "0x03",
+    "0x04",
+    "0x05",
+    "0x06",
+  ];
+  // filled in a block that was replaced
+  const uncle = settling("0xt2", 10);
+  uncle.fill!.blockHash = utils.id("uncle 10");
+  const registry = new Registry(
+    new Map([
+      [
+        SAFE,
+        new Map([
+          [
+            "0xh1",
+            {
+              payload: "0x",
+              orders: new Map([
+                [filled, settling("0xt1", 10)],
+                [reorged, uncle],
+                [moved, settling("0xt3", 10)],
+                [failed, settling("0xt4", 10)],
+                [lagging, settling("0xt5", 10)],
+                [missing, settling("0xt6", 10)],
+              ]),
+            },
+          ],
+        ]),
+      ],
+    ]),
+    new TestRuntime().context.storage,
+    "1"
+  );
+  const orders = registry.safeOrders.get(SAFE)!.get("0xh1")!.orders;
+
+  const receipts: Record<string, ethers.providers.TransactionReceipt | null> = {
+    "0xt1": receipt("0xt1", 10, [filled]),
+    // the transaction is no longer in the chain
+    "0xt2": null,
+    // the transaction was included again, in a later block
+    "0xt3": receipt("0xt3", 12, [moved]),
+    // the transaction no longer trades the order
+    "0xt4": receipt("0xt4", 10, []),
+    // a lagging node has not yet indexed the transactions
+    "0xt5": null,
+    "0xt6": null,
+  };
+  const provider = {
+    getTransactionReceipt: async (hash: string) => receipts[hash],
+    getBlock: async (block: string | number) => ({
+      hash: typeof block === "number" ? utils.id(`block ${block}`) : block,
+      timestamp: 1000,
+    }),
+  } as unknown as ethers.providers.Provider;
+
+  // with 3 confirmations, a fill in block 10 is final in block 12
+  await confirmFills(registry, provider, 11, 3);
+  assert.equal(orders.get(filled)?.status, OrderStatus.SETTLING);
+  assert.equal(orders.get(reorged)?.status, OrderStatus.SUBMITTED);
+  assert.equal(orders.get(reorged)?.fill, undefined);
+  assert.equal(orders.get(failed)?.status, OrderStatus.SUBMITTED);
+  assert.equal(orders.get(failed)?.fill, undefined);
+  assert.equal(orders.get(moved)?.status, OrderStatus.SETTLING);
+  assert.equal(orders.get(moved)?.fill?.blockNumber, 12);
+  assert.equal(orders.get(moved)?.fill?.blockHash, utils.id("block 12"));
+  assert.equal(orders.get(moved)?.fill?.timestamp, 1000);
+  // without a receipt, fills in canonical blocks wait for one
+  assert.equal(orders.get(lagging)?.status, OrderStatus.SETTLING);
+  assert.equal(orders.get(lagging)?.fill?.transactionHash, "0xt5");
+  assert.equal(orders.get(missing)?.status, OrderStatus.SETTLING);
+
+  receipts["0xt5"] = receipt("0xt5", 10, [lagging]);
+
+  await confirmFills(registry, provider, 12, 3);
+  assert.equal(orders.get(filled)?.status, OrderStatus.FILLED);
+  assert.equal(orders.get(moved)?.status, OrderStatus.SETTLING);
+  assert.equal(orders.get(lagging)?.status, OrderStatus.FILLED);
+  // a fill that is deep enough, still without a receipt, is reverted
+  assert.equal(orders.get(missing)?.status, OrderStatus.SUBMITTED);
+  assert.equal(orders.get(missing)?.fill, undefined);
+
+  await confirmFills(registry, provider, 14, 3);
+  assert.equal(orders.get(moved)?.status, OrderStatus.FILLED);
+  // reverted fills are not confirmed
+  assert.equal(orders.get(reorged)?.status, OrderStatus.SUBMITTED);
+};
+
+/**
+ * Orders of the Safe that the orderbook may have lost: one that it has, one
+ * that it lost while it is still valid, and one that it lost after it expired
+ */
+const testReconcileOrders = async () => {
+  const now = Math.floor(Date.now() / 1000);
+  const twap = {
+    sellToken: "0x91056D4A53E1faa1A84306D4deAEc71085394bC8",
+    buyToken: "0x02ABBDbAaa7b1BB64B5c878f7ac17f8DDa169532",
+    receiver: ethers.constants.AddressZero,
+    partSellAmount: BigNumber.from(1000),
+    minPartLimit: BigNumber.from(1),
+    // the second part is tradeable
+    t0: BigNumber.from(now - 700),
+    n: BigNumber.from(6),
+    t: BigNumber.from(600),
+    span: BigNumber.from(0),
+  };
+  const otherTwap = { ...twap, partSellAmount: BigNumber.from(2000) };
+  const partUid = (data: typeof twap, part: number) =>
+    computeOrderUid(
+      {
+        name: "Gnosis Protocol",
+        version: "v2",
+        chainId: 1,
+        verifyingContract: SETTLEMENT,
+      },
+      twapPartOrder(data, part),
+      SAFE
+    );
+  const submitted = (data: typeof twap, part: number): OrderRecord => ({
+    status: OrderStatus.SUBMITTED,
+    attempts: 1,
+    validTo: twapPartValidTo(data, part),
+  });
+  const [expired, missing, present] = [
+    partUid(twap, 0),
+    partUid(twap, 1),
+    partUid(otherTwap, 1),
+  ];
+
+  const testRuntime = new TestRuntime();
+  testRuntime.context.secrets.put("NODE_URL_1", "http://127.0.0.1:8545");
+  const registry = new Registry(
+    new Map([
+      [
+        SAFE,
+        new Map([
+          [
+            "0xh1",
+            {
+              payload: twapCodec.encode(twap),
+              orders: new Map([
+                [expired, submitted(twap, 0)],
+                [missing, submitted(twap, 1)],
+              ]),
+            },
+          ],
+          [
+            "0xh2",
+            {
+              payload: twapCodec.encode(otherTwap),
+              orders: new Map([[present, submitted(otherTwap, 1)]]),
+            },
+          ],
+        ]),
+      ],
+    ]),
+    testRuntime.context.storage,
+    "1"
+  );
+  await registry.write();
+
+  // `getTradeableOrder` returns the part of the TWAP that is due
+  const multicallIface = new utils.Interface([
+    "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  ]);
+  const conditionalOrderIface = ConditionalOrder__factory.createInterface();
+  const tradeableCalls: string[] = [];
+  const restoreProvider = patch(ethers.providers.JsonRpcProvider.prototype, {
+    getBlock: async () => ({ timestamp: now } as ethers.providers.Block),
+    call: async ({ data }: { data: string }) => {
+      const [calls] = multicallIface.decodeFunctionData("aggregate3", data);
+      return multicallIface.encodeFunctionResult("aggregate3", [
+        calls.map(({ callData }: { callData: string }) => {
+          const [payload] = conditionalOrderIface.decodeFunctionData(
+            "getTradeableOrder",
+            callData
+          );
+          tradeableCalls.push(payload);
+          const order = twapPartOrder(twapCodec.decode(payload), 1);
+          return {
+            success: true,
+            returnData: conditionalOrderIface.encodeFunctionResult(
+              "getTradeableOrder",
+              [
+                {
+                  ...order,
+                  receiver: ethers.constants.AddressZero,
+                  kind: utils.id(order.kind),
+                  sellTokenBalance: utils.id(order.sellTokenBalance!),
+                  buyTokenBalance: utils.id(order.buyTokenBalance!),
+                },
+              ]
+            ),
+          };
+        }),
+      ]);
+    },
+  });
+
+  // The orderbook only has `present`
+  const posted: Record<string, unknown>[] = [];
+  const restoreAxios = patch(axios.defaults, {
+    adapter: async (config) => {
+      if (config.method === "post") {
+        posted.push(JSON.parse(config.data));
+        return response(config, missing);
+      }
+      if (config.url?.endsWith(`/api/v1/orders/${present}`)) {
+        return response(config, { uid: present, status: "open" });
+      }
+      throw apiError(404);
+    },
+  });
+
+  const event = new TestBlockEvent();
+  event.network = "1";
+  event.blockNumber = 100;
+  try {
+    await testRuntime.execute(reconcileOrders, event);
+  } finally {
+    restoreProvider();
+    restoreAxios();
+  }
+
+  // only the order that is still valid is posted again
+  assert.deepEqual(tradeableCalls, [twapCodec.encode(twap)]);
+  assert.equal(posted.length, 1);
+  assert.equal(posted[0].validTo, twapPartValidTo(twap, 1));
+  assert.equal(posted[0].sellAmount, "1000");
+  assert.equal(posted[0].from, SAFE);
+
+  const reconciled = await Registry.load(testRuntime.context, "1");
+  const orders = reconciled.safeOrders.get(SAFE)!;
+  const missingRecord = orders.get("0xh1")!.orders.get(missing);
+  assert.equal(missingRecord?.status, OrderStatus.SUBMITTED);
+  assert.equal(missingRecord?.attempts, 2);
+  assert.equal(
+    orders.get("0xh1")!.orders.get(expired)?.status,
+    OrderStatus.EXPIRED
+  );
+  assert.deepEqual(orders.get("0xh2")!.orders.get(present), {
+    ...submitted(otherTwap, 1),
+    fill: undefined,
+  });
+};
+
+const main = async () => {
+  // Errors from posting an order, by how they are handled
+  const cases: [string, any, SubmissionError][] = [
+    [
+      "DuplicateOrder",
+      apiError(400, "DuplicateOrder"),
+      SubmissionError.DUPLICATE,
+    ],
+    [
+      "DuplicatedOrder",
+      apiError(400, "DuplicatedOrder"),
+      SubmissionError.DUPLICATE,
+    ],
+    [
+      "InsufficientBalance",
+      apiError(400, "InsufficientBalance"),
+      SubmissionError.INSUFFICIENT_FUNDS,
+    ],
+    [
+      "InsufficientAllowance",
+      apiError(400, "InsufficientAllowance"),
+      SubmissionError.INSUFFICIENT_FUNDS,
+    ],
+    [
+      "InsufficientFee",
+      apiError(400, "InsufficientFee"),
+      SubmissionError.PERMANENT,
+    ],
+    [
+      "InvalidSignature",
+      apiError(400, "InvalidSignature"),
+      SubmissionError.PERMANENT,
+    ],
+    ["WrongOwner", apiError(400, "WrongOwner"), SubmissionError.PERMANENT],
+    [
+      "UnsupportedToken",
+      apiError(400, "UnsupportedToken"),
+      SubmissionError.PERMANENT,
+    ],
+    [
+      "InsufficientValidTo",
+      apiError(400, "InsufficientValidTo"),
+      SubmissionError.PERMANENT,
+    ],
+    [
+      "TransferSimulationFailed",
+      apiError(400, "TransferSimulationFailed"),
+      SubmissionError.PERMANENT,
+    ],
+    [
+      "unknown error type",
+      apiError(400, "SomethingElse"),
+      SubmissionError.PERMANENT,
+    ],
+    ["403 without an error type", apiError(403), SubmissionError.PERMANENT],
+    [
+      "rate limiting",
+      apiError(429, "TooManyRequests"),
+      SubmissionError.TRANSIENT,
+    ],
+    [
+      "internal server error",
+      apiError(500, "InternalServerError"),
+      SubmissionError.TRANSIENT,
+    ],
+    ["bad gateway", apiError(502), SubmissionError.TRANSIENT],
+    ["service unavailable", apiError(503), SubmissionError.TRANSIENT],
+    // the error type takes precedence over the status
+    [
+      "InsufficientBalance with a 500",
+      apiError(500, "InsufficientBalance"),
+      SubmissionError.INSUFFICIENT_FUNDS,
+    ],
+    [
+      "network error",
+      new Error("connect ECONNREFUSED"),
+      SubmissionError.TRANSIENT,
+    ],
+    [
+      "timeout",
+      Object.assign(new Error("timeout"), { code: "ECONNABORTED" }),
+      SubmissionError.TRANSIENT,
+    ],
+  ];
+  for (const [name, error, expected] of cases) {
+    assert.equal(
+      classifyOrderbookError(error),
+      expected,
+      `${name}: expected ${SubmissionError[expected]}`
+    );
+  }
+
+  await testConfirmations();
+  await testCheckForSettlement();
+  await testConfirmFills();
+  await testReconcileOrders();
+};
+
+(async () => await main())();
@@ -0,0 +1,302 @@
+import { Order, OrderBalance, OrderKind } from "@cowprotocol/contracts";
+import { BigNumber, BytesLike, constants, utils } from "ethers";
+
+import { ConditionalOrderCodec, ConditionalOrderError } from "./codec";
+
+export { ConditionalOrderError };
+
+// Mirrors `TWAPOrder.Data` and `TWAPOrder.TWAP_ORDER_BYTES_LENGTH`
+export const TWAP_ORDER_STRUCT =
+  "tuple(address sellToken,address buyToken,address receiver,uint256 partSellAmount,uint256 minPartLimit,uint256 t0,uint256 n,uint256 t,uint256 span)";
+export const TWAP_ORDER_BYTES_LENGTH = 288;
+// `TWAPOrder.APP_DATA`, keccak256("conditionalorder.twap")
+export const TWAP_APP_DATA =
+  "0x6a1cb2f57824a1985d4bd2c556f30a048157ee9973efc0a4714604dde0a23104";
+
+const UINT32_MAX = BigNumber.from(2).pow(32).sub(1);
+const MAX_FREQUENCY = 365 * 24 * 60 * 60;
+
+// The TWAP order data as decoded from a conditional order payload
+export interface TWAPData {
+  sellToken: string;
+  buyToken: string;
+  receiver: string;
+  partSellAmount: BigNumber;
+  minPartLimit: BigNumber;
+  t0: BigNumber;
+  n: BigNumber;
+  t: BigNumber;
+  span: BigNumber;
+}
+
+export enum TWAPStatus {
+  // The TWAP has not started yet (`OrderNotValid`)
+  NOT_STARTED = "NOT_STARTED",
+  // The current part may be traded
+  ACTIVE = "ACTIVE",
+  // The current part's `span` has passed (`OrderNotValid`)
+  OUTSIDE_SPAN = "OUTSIDE_SPAN",
+  // All parts have passed (`OrderExpired`)
+  EXPIRED = "EXPIRED",
+}
+
+export interface TWAPSchedule {
+  status: TWAPStatus;
+  // Index of the current part, if the TWAP has started and not expired
+  part?: number;
+  // `validTo` of the current part's order (inclusive)
+  validTo?: number;
+  // Time at which the next part's window opens, if there is a next part
+  nextWindowOpen?: number;
+  // Time from which the TWAP is expired, which may not fit in a `number`
+  // (`n * t` is up to 2^57)
+  expiry: BigNumber;
+}
+
+/**
+ * Decode a conditional order payload into TWAP order data
+ * @param payload ABI-encoded `TWAPOrder.Data`
+ * @returns the decoded TWAP order data
+ */
+export function decodeTwap(payload: BytesLike): TWAPData {
+  if (utils.hexDataLength(payload) !== TWAP_ORDER_BYTES_LENGTH) {
+    throw new Error(
+      `Invalid TWAP payload length: ${utils.hexDataLength(payload)} bytes`
+    );
+  }
+  const [data] = utils.defaultAbiCoder.decode([TWAP_ORDER_STRUCT], payload);
+  return {
+    sellToken: data.sellToken,
+    buyToken: data.buyToken,
+    receiver: data.receiver,
+    partSellAmount: data.partSellAmount,
+    minPartLimit: data.minPartLimit,
+    t0: data.t0,
+    n: data.n,
+    t: data.t,
+    span: data.span,
+  };
+}
+
+/**
+ * Port of `TWAPOrder.validate`
+ * @param data TWAP order to validate
+ * @throws `ConditionalOrderError` with the name of the error `validate` reverts with
+ */
+export function validateTwap(data: TWAPData) {
+  if (!(data.sellToken.toLowerCase() !== data.buyToken.toLowerCase()))
+    throw new ConditionalOrderError(
+      "InvalidSameToken",
+      "sell and buy token must differ"
+    );
+  if (
+    !(
+      data.sellToken !== constants.AddressZero &&
+      data.buyToken !== constants.AddressZero
+    )
+  )
+    throw new ConditionalOrderError(
+      "InvalidToken",
+      "sell and buy token must not be the zero address"
+    );
+  if (!data.partSellAmount.gt(0))
+    throw new ConditionalOrderError(
+      "InvalidPartSellAmount",
+      "part sell amount must be greater than zero"
+    );
+  if (!data.minPartLimit.gt(0))
+    throw new ConditionalOrderError(
+      "InvalidMinPartLimit",
+      "part minimum buy amount must be greater than zero"
+    );
+  if (!data.t0.lt(UINT32_MAX))
+    throw new ConditionalOrderError(
+      "InvalidStartTime",
+      "start time must fit in a uint32"
+    );
+  if (!(data.n.gt(1) && data.n.lte(UINT32_MAX)))
+    throw new ConditionalOrderError(
+      "InvalidNumParts",
+      "number of parts must be greater than 1 and fit in a uint32"
+    );
+  if (!(data.t.gt(0) && data.t.lte(MAX_FREQUENCY)))
+    throw new ConditionalOrderError(
+      "InvalidFrequency",
+      `time interval must be between 1 and ${MAX_FREQUENCY} seconds`
+    );
+  if (!data.span.lte(data.t))
+    throw new ConditionalOrderError(
+      "InvalidSpan",
+      "span must not be greater than the time interval"
+    );
+}
+
+/**
+ * Port of `TWAPOrderMathLib.calculateValidTo`
+ * @param startTime The start time of the TWAP order.
+ * @param numParts The number of parts to split the order into.
+ * @param frequency The frequency of each part (in seconds).
+ * @param span The span of each part (in seconds, or 0 for the whole epoch).
+ * @param timestamp Current block timestamp.
+ * @returns the `validTo` of the current part
+ * @throws `ConditionalOrderError` of `OrderNotValid` or `OrderExpired`
+ */
+export function calculateValidTo(
+  startTime: BigNumber,
+  numParts: BigNumber,
+  frequency: BigNumber,
+  span: BigNumber,
+  timestamp: number
+): number {
+  // Order is not valid before the start (order commences at `t0`).
+  if (!startTime.lte(timestamp))
+    throw new ConditionalOrderError("OrderNotValid");
+
+  // Order is expired after the last part (`n` parts, running at `t` time length).
+  if (!startTime.add(numParts.mul(frequency)).gt(timestamp))
+    throw new ConditionalOrderError("OrderExpired");
+
+  // Round down to the nearest part.
+  const part = BigNumber.from(timestamp).sub(startTime).div(frequency);
+
+  // If the span is zero, then the order is valid for the entire part.
+  if (span.isZero()) {
+    return startTime.add(part.add(1).mul(frequency)).sub(1).toNumber();
+  }
+
+  return startTime.add(part.mul(frequency)).add(span).sub(1).toNumber();
+}
+
+/**
+ * Calculate the `validTo` of a part of a TWAP order, as
+ * `TWAPOrderMathLib.calculateValidTo` does during the part
+ * @param data TWAP order
+ * @param part index of the part
+ * @returns the last timestamp at which the part may be traded
+ * @throws if there is no such part, or its `validTo` does not fit in a uint32
+ * (`orderFor` reverts)
+ */
+export function twapPartValidTo(data: TWAPData, part: number): number {
+  if (part < 0 || data.n.lte(part)) {
+    throw new Error(`TWAP has no part ${part}`);
+  }
+  const start = data.t0.add(data.t.mul(part));
+  const validTo = start.add(data.span.isZero() ? data.t : data.span).sub(1);
+  if (validTo.gt(UINT32_MAX)) {
+    throw new Error(`validTo of part ${part} does not fit in a uint32`);
+  }
+  return validTo.toNumber();
+}
+
+/**
+ * Port of `TWAPOrder.orderFor`, for any part of a TWAP order
+ * @param data TWAP order
+ * @param part index of the part
+ * @returns the order that `getTradeableOrder` returns during the part
+ * @throws if there is no such part
+ */
+export function twapPartOrder(data: TWAPData, part: number): Order {
+  return {
+    sellToken: data.sellToken,
+    buyToken: data.buyToken,
+    // `computeOrderUid` expects no receiver, rather than the zero address
+    receiver:
+      data.receiver === constants.AddressZero ? undefined : data.receiver,
+    sellAmount: data.partSellAmount,
+    buyAmount: data.minPartLimit,
+    validTo: twapPartValidTo(data, part),
+    appData: TWAP_APP_DATA,
+    feeAmount: 0,
+    kind: OrderKind.SELL,
+    partiallyFillable: false,
+    sellTokenBalance: OrderBalance.ERC20,
+    buyTokenBalance: OrderBalance.ERC20,
+  };
+}
+
+/**
+ * Determine where a TWAP order is in its schedule at a given time, without
+ * calling `getTradeableOrder`.
+ * @param data TWAP order, assumed to have passed `validateTwap`
+ * @param timestamp Current block timestamp
+ * @returns the status of the TWAP and the times of its current and next part
+ */
+export function twapSchedule(data: TWAPData, timestamp: number): TWAPSchedule {
+  const { t0, n, t, span } = data;
+  const expiry = t0.add(n.mul(t));
+
+  let validTo: number;
+  try {
+    validTo = calculateValidTo(t0, n, t, span, timestamp);
+  } catch (e: any) {
+    if (e.errorName === "OrderNotValid") {
+      return {
+        status: TWAPStatus.NOT_STARTED,
+        nextWindowOpen: t0.toNumber(),
+        expiry,
+      };
+    }
+    return { status: TWAPStatus.EXPIRED, expiry };
+  }
+
+  // The current part, and the next window, are within `t` of `timestamp`
+  const part = BigNumber.from(timestamp).sub(t0).div(t);
+  const nextWindowOpen = part.add(1).lt(n)
+    ? t0.add(part.add(1).mul(t)).toNumber()
+    : undefined;
+
+  return {
+    // `getTradeableOrder` reverts with `OrderNotValid` outside of the span
+    status: timestamp <= validTo ? TWAPStatus.ACTIVE : TWAPStatus.OUTSIDE_SPAN,
+    part: part.toNumber(),
+    validTo,
+    nextWindowOpen,
+    expiry,
+  };
+}
+
+/**
+ * Codec of TWAP conditional orders, for `TWAPOrder`
+ */
+export const twapCodec: ConditionalOrderCodec<TWAPData> = {
+  name: "twap",
+
+  encode: (data) => utils.defaultAbiCoder.encode([TWAP_ORDER_STRUCT], [data]),
+
+  decode: decodeTwap,
+
+  validate: validateTwap,
+
+  describe: (data) => ({
+    "Sell token": data.sellToken,
+    "Buy token": data.buyToken,
+    Receiver: data.receiver,
+    "Part sell amount": data.partSellAmount.toString(),
+    "Part min buy amount": data.minPartLimit.toString(),
+    "Start time": new Date(data.t0.toNumber() * 1000).toISOString(),
+    "Number of parts": data.n.toString(),
+    "Time interval": `${data.t}s`,
+    Span: data.span.isZero() ? "whole interval" : `${data.span}s`,
+  }),
+
+  limit: (data) => ({
+    sellAmount: data.partSellAmount,
+    buyAmount: data.minPartLimit,
+  }),
+
+  part: (data, validTo) =>
+    BigNumber.from(validTo).sub(data.t0).div(data.t).toNumber(),
+
+  order: twapPartOrder,
+
+  notTradeable: (data, timestamp) => {
+    const schedule = twapSchedule(data, timestamp);
+    if (
+      schedule.status === TWAPStatus.NOT_STARTED ||
+      schedule.status === TWAPStatus.OUTSIDE_SPAN
+    ) {
+      return `${schedule.status}, next window opens at ${schedule.nextWindowOpen}`;
+    }
+    return undefined;
+  },
+};
@@ -13,169 +13,1103 @@ import {
 } from "@cowprotocol/contracts";
 
 import axios from "axios";
-import { ethers } from "ethers";
+import { BigNumber, ethers, utils } from "ethers";
 import { ConditionalOrder__factory, GPv2Settlement__factory } from "./types";
-import { Registry, OrderStatus } from "./register";
-import { Logger } from "ethers/lib/utils";
+import {
+  archiveConditionalOrder,
+  ConditionalOrder,
+  ConditionalOrderStatus,
+  Fill,
+  OrderRecord,
+  OrderStatus,
+  Registry,
+  setOrderStatus,
+  SETTLEMENT,
+} from "./register";
+import { detectCodec } from "./codecs";
+import { aggregate } from "./multicall";
+import { notifyChanges, snapshot } from "./lifecycle";
+import { Logger, LogFields, logger } from "./logger";
+import { instrument, Run } from "./metrics";
+
+// Backoff (in seconds) between attempts to submit an order, doubling with each
+// attempt up to `MAX_BACKOFF`
+const BASE_BACKOFF = 60;
+const MAX_BACKOFF = 60 * 60;
+// Attempts to submit an order that fails with transient errors before giving up
+const MAX_TRANSIENT_ATTEMPTS = 5;
+// Orders posted to the orderbook at once
+const MAX_CONCURRENT_PLACEMENTS = 5;
+// Blocks (including its own) before a fill is final, unless overridden with the
+// `CONFIRMATIONS_<network>` secret
+const DEFAULT_CONFIRMATIONS = 12;
+
+export const checkForSettlement: ActionFn = instrument(
+  "checkForSettlement",
+  async (context: Context, event: Event, run: Run) => {
+    const transactionEvent = event as TransactionEvent;
+    const iface = GPv2Settlement__factory.createInterface();
+
+    const registry = await Registry.load(context, transactionEvent.network);
+    const before = snapshot(registry);
+
+    // only trades on `GPv2Settlement` of Safes in the registry need the
+    // block's timestamp, as any contract may emit a `Trade` event
+    const trades = transactionEvent.logs
+      .filter(
+        (log) =>
+          log.address.toLowerCase() === SETTLEMENT.toLowerCase() &&
+          log.topics[0] === iface.getEventTopic("Trade")
+      )
+      .map((log) => iface.decodeEventLog("Trade", log.data, log.topics))
+      .filter(({ owner }) => registry.safeOrders.has(utils.getAddress(owner)));
+    if (trades.length > 0) {
+      const chainContext = await ChainContext.create(
+        context,
+        transactionEvent.network
+      );
+      const timestamp = await getBlockTimestamp(
+        chainContext.provider,
+        transactionEvent.blockHash
+      );
+
+      for (const {
+        owner,
+        orderUid,
+        sellAmount,
+        buyAmount,
+        feeAmount,
+      } of trades) {
+        recordTrade(
+          registry,
+          owner,
+          orderUid,
+          {
+            blockNumber: transactionEvent.blockNumber,
+            blockHash: transactionEvent.blockHash,
+            transactionHash: transactionEvent.hash,
+            timestamp,
+            sellAmount: sellAmount.toString(),
+            buyAmount: buyAmount.toString(),
+            feeAmount: feeAmount.toString(),
+          },
+          run.log
+        );
+      }
+    }
+
+    await registry.write();
+    await notifyChanges(
+      context,
+      registry,
+      before,
+      transactionEvent.blockNumber
+    );
+  }
+);
 
-export const checkForSettlement: ActionFn = async (
-  context: Context,
-  event: Event
+/**
+ * Mark an order as settling if it belongs to a conditional order in the
+ * registry, whether or not the watchtower placed it (ie. when backfilling).
+ * The fill is confirmed, or reverted, by `confirmFills`.
+ * @param registry to update
+ * @param owner of the order that was traded
+ * @param orderUid of the order that was traded
+ * @param fill transaction that the order was traded in
+ * @param log to log the execution of the conditional order to
+ */
+export const recordTrade = (
+  registry: Registry,
+  owner: string,
+  orderUid: string,
+  fill: Fill,
+  log: Logger = logger
 ) => {
-  const transactionEvent = event as TransactionEvent;
-  const iface = GPv2Settlement__factory.createInterface();
+  // Check if the owner is in the registry
+  if (registry.safeOrders.has(utils.getAddress(owner))) {
+    // Get the conditionalOrders for the owner
+    const conditionalOrders = registry.safeOrders.get(utils.getAddress(owner));
+    // Iterate over the conditionalOrders and update the status of the orderUid
+    conditionalOrders?.forEach((conditionalOrder, hash) => {
+      // Check if the orderUid is of the conditionalOrder, and not already final
+      const record = conditionalOrder.orders.get(orderUid);
+      if (
+        record === undefined
+          ? isPartOrder(registry.network, owner, conditionalOrder, orderUid)
+          : record.status !== OrderStatus.FILLED
+      ) {
+        // Update the status of the orderUid to SETTLING until it is confirmed
+        setOrderStatus(
+          conditionalOrder,
+          orderUid,
+          OrderStatus.SETTLING,
+          fill.blockNumber
+        ).fill = fill;
+        logExecution(
+          log.child({
+            network: registry.network,
+            safe: utils.getAddress(owner),
+            conditionalOrderHash: hash,
+            orderUid,
+          }),
+          conditionalOrder
+        );
+      }
+    });
+  }
+};
 
-  const registry = await Registry.load(context, transactionEvent.network);
-  console.log(
-    `Current registry: ${JSON.stringify(
-      Array.from(registry.safeOrders.entries())
-    )}`
+/**
+ * Check whether an order is one of the parts of a conditional order, by
+ * rebuilding the part from the `validTo` at the end of the order UID
+ * @param network chain id of the network
+ * @param owner of the order
+ * @param conditionalOrder that the order may belong to
+ * @param orderUid of the order
+ * @returns whether the order is a part, or false if the type of the
+ * conditional order does not support rebuilding its parts
+ */
+const isPartOrder = (
+  network: string,
+  owner: string,
+  conditionalOrder: ConditionalOrder,
+  orderUid: string
+): boolean => {
+  const detected = detectCodec(conditionalOrder.payload);
+  if (!detected?.codec.part || !detected.codec.order) return false;
+  try {
+    const validTo = BigNumber.from(
+      utils.hexDataSlice(orderUid, 52, 56)
+    ).toNumber();
+    const order = detected.codec.order(
+      detected.data,
+      detected.codec.part(detected.data, validTo)
+    );
+    return (
+      getOrderUid(network, order, utils.getAddress(owner)) ===
+      orderUid.toLowerCase()
+    );
+  } catch {
+    // not a valid UID, or not a part of the conditional order
+    return false;
+  }
+};
+
+/**
+ * Total the fills of a conditional order, whether or not they are confirmed
+ * @param conditionalOrder whose fills to total
+ * @returns the number of orders filled, and the amounts that they traded
+ */
+export const executionSummary = (
+  conditionalOrder: ConditionalOrder
+): { fills: number; sold: BigNumber; bought: BigNumber; fees: BigNumber } => {
+  const summary = {
+    fills: 0,
+    sold: BigNumber.from(0),
+    bought: BigNumber.from(0),
+    fees: BigNumber.from(0),
+  };
+  for (const { status, fill } of conditionalOrder.orders.values()) {
+    if (
+      fill === undefined ||
+      (status !== OrderStatus.SETTLING && status !== OrderStatus.FILLED)
+    ) {
+      continue;
+    }
+    summary.fills += 1;
+    summary.sold = summary.sold.add(fill.sellAmount);
+    summary.bought = summary.bought.add(fill.buyAmount);
+    summary.fees = summary.fees.add(fill.feeAmount);
+  }
+  return summary;
+};
+
+/**
+ * Log the amounts that a conditional order has traded so far, and its average
+ * price against its limit price. Prices are in buy token units per sell token
+ * unit, and the fees are counted as sold.
+ * @param log with the context of the conditional order
+ * @param conditionalOrder to log
+ */
+const logExecution = (log: Logger, conditionalOrder: ConditionalOrder) => {
+  const { fills, sold, bought, fees } = executionSummary(conditionalOrder);
+  const totalSold = sold.add(fees);
+  if (totalSold.isZero()) return;
+
+  const fields: LogFields = {
+    fills,
+    sold: totalSold,
+    fees,
+    bought,
+    averagePrice: formatPrice(totalSold, bought),
+  };
+
+  const detected = detectCodec(conditionalOrder.payload);
+  const limit = detected?.codec.limit?.(detected.data);
+  if (limit !== undefined && !limit.buyAmount.isZero()) {
+    // How much better the average price is than the limit, in basis points
+    const bps = bought
+      .mul(limit.sellAmount)
+      .mul(10000)
+      .div(totalSold.mul(limit.buyAmount))
+      .sub(10000);
+    fields.limitPrice = formatPrice(limit.sellAmount, limit.buyAmount);
+    fields.bpsBetter = bps.toNumber();
+  }
+  log.info("Conditional order executed", fields);
+};
+
+/**
+ * Format the price of a trade, in buy token units per sell token unit
+ */
+const formatPrice = (sellAmount: BigNumber, buyAmount: BigNumber): string =>
+  utils.formatUnits(
+    buyAmount.mul(BigNumber.from(10).pow(18)).div(sellAmount),
+    18
   );
 
-  transactionEvent.logs.forEach((log) => {
-    if (log.topics[0] === iface.getEventTopic("Trade")) {
-      const t = iface.decodeEventLog("Trade", log.data, log.topics);
-      const { owner, orderUid } = t;
-
-      // Check if the owner is in the registry
-      if (registry.safeOrders.has(owner)) {
-        // Get the conditionalOrders for the owner
-        const conditionalOrders = registry.safeOrders.get(owner);
-        // Iterate over the conditionalOrders and update the status of the orderUid
-        conditionalOrders?.forEach((conditionalOrder) => {
-          // Check if the orderUid is in the conditionalOrder
-          if (conditionalOrder.orders.has(orderUid)) {
-            // Update the status of the orderUid to FILLED
-            conditionalOrder.orders.set(orderUid, OrderStatus.FILLED);
-          }
+/**
+ * Get the timestamp of a block
+ * @param provider to get the block from
+ * @param blockHashOrNumber of the block
+ * @returns the timestamp, or undefined if the block is not known (ie. reorged out)
+ */
+export const getBlockTimestamp = async (
+  provider: ethers.providers.Provider,
+  blockHashOrNumber: string | number
+): Promise<number | undefined> => {
+  try {
+    return (await provider.getBlock(blockHashOrNumber))?.timestamp;
+  } catch (e) {
+    logger.warn("Could not get block", { block: blockHashOrNumber, error: e });
+    return undefined;
+  }
+};
+
+export const checkForAndPlaceOrder: ActionFn = instrument(
+  "checkForAndPlaceOrder",
+  async (context: Context, event: Event, run: Run) => {
+    const blockEvent = event as BlockEvent;
+    const registry = await Registry.load(context, blockEvent.network);
+    const before = snapshot(registry);
+    const chainContext = await ChainContext.create(context, blockEvent.network);
+    const { timestamp } = await chainContext.provider.getBlock(
+      blockEvent.blockNumber
+    );
+    const iface = ConditionalOrder__factory.createInterface();
+
+    await confirmFills(
+      registry,
+      chainContext.provider,
+      blockEvent.blockNumber,
+      chainContext.confirmations,
+      run.log
+    );
+
+    // enumerate all the `ConditionalOrder`s of all the safes, skipping those with nothing to trade
+    const checks: {
+      safeAddress: string;
+      hash: string;
+      conditionalOrder: ConditionalOrder;
+      log: Logger;
+    }[] = [];
+    for (const [
+      safeAddress,
+      conditionalOrders,
+    ] of registry.safeOrders.entries()) {
+      for (const [hash, conditionalOrder] of conditionalOrders.entries()) {
+        const log = run.log.child({
+          safe: safeAddress,
+          conditionalOrderHash: hash,
         });
+        expireOrders(conditionalOrder, blockEvent.blockNumber, timestamp, log);
+
+        // Skip the `eth_call` if a TWAP's schedule shows there is nothing to trade
+        // Payloads of unknown types are left to `getTradeableOrder` to decide
+        const detected = detectCodec(conditionalOrder.payload);
+        let reason: string | undefined;
+        try {
+          reason = detected?.codec.notTradeable?.(detected.data, timestamp);
+        } catch (e) {
+          // one bad payload must not stop the orders of every other Safe
+          log.error("Could not check the conditional order", { error: e });
+          run.errors += 1;
+          continue;
+        }
+        if (reason !== undefined) {
+          log.debug("No part is tradeable", {
+            orderType: detected?.codec.name,
+            reason,
+          });
+          run.skipped += 1;
+          continue;
+        }
+
+        checks.push({ safeAddress, hash, conditionalOrder, log });
       }
     }
-  });
 
-  console.log(
-    `Updated registry: ${JSON.stringify(
-      Array.from(registry.safeOrders.entries())
-    )}`
-  );
-  await registry.write();
-};
+    // call `getTradeableOrder` for all of them at once
+    run.checked = checks.length;
+    const results = await aggregate(
+      chainContext.provider,
+      checks.map(({ safeAddress, conditionalOrder }) => ({
+        target: safeAddress,
+        callData: iface.encodeFunctionData("getTradeableOrder", [
+          conditionalOrder.payload,
+        ]),
+      })),
+      blockEvent.blockNumber
+    );
 
-export const checkForAndPlaceOrder: ActionFn = async (
-  context: Context,
-  event: Event
-) => {
-  const blockEvent = event as BlockEvent;
-  const registry = await Registry.load(context, blockEvent.network);
-  const chainContext = await ChainContext.create(context, blockEvent.network);
-
-  // enumerate all the safeOrders
-  for (const [
-    safeAddress,
-    conditionalOrders,
-  ] of registry.safeOrders.entries()) {
-    console.log(`Checking ${safeAddress}...`);
-
-    // enumerate all the `ConditionalOrder`s for a given safe
-    for (const conditionalOrder of conditionalOrders) {
-      console.log(`Checking payload ${conditionalOrder.payload}...`);
-      const contract = ConditionalOrder__factory.connect(
-        safeAddress,
-        chainContext.provider
+    const placements: (() => Promise<void>)[] = [];
+    results.forEach(({ success, returnData }, i) => {
+      const { safeAddress, hash, conditionalOrder, log } = checks[i];
+
+      if (!success) {
+        run.skipped += 1;
+        const errorName = parseRevert(iface, returnData);
+        switch (errorName) {
+          case "OrderNotValid":
+            // The conditional order has not expired, or been cancelled, but the order is not valid
+            // For example, with TWAPs, this may be after `span` seconds have passed in the epoch.
+            log.debug("Order not valid");
+            return;
+          case "OrderExpired":
+            log.info("Conditional order expired, archiving", {
+              unfilledOrders: unfilledOrders(conditionalOrder.orders),
+            });
+            archiveConditionalOrder(
+              registry,
+              safeAddress,
+              hash,
+              ConditionalOrderStatus.EXPIRED,
+              blockEvent.blockNumber
+            );
+            return;
+          case "OrderCancelled":
+            log.info("Conditional order cancelled, archiving", {
+              unfilledOrders: unfilledOrders(conditionalOrder.orders),
+            });
+            archiveConditionalOrder(
+              registry,
+              safeAddress,
+              hash,
+              ConditionalOrderStatus.CANCELLED,
+              blockEvent.blockNumber
+            );
+            return;
+        }
+
+        log.info("Not tradeable", { reason: errorName ?? returnData });
+        return;
+      }
+
+      const [tradeableOrder] = iface.decodeFunctionResult(
+        "getTradeableOrder",
+        returnData
       );
+      let order: Order;
       try {
-        const order: Order = {
-          ...(await contract.callStatic.getTradeableOrder(
-            conditionalOrder.payload
-          )),
-          kind: OrderKind.SELL,
-          sellTokenBalance: OrderBalance.ERC20,
-          buyTokenBalance: OrderBalance.ERC20,
-        };
-
-        // calculate the orderUid
-        const orderUid = computeOrderUid(
-          {
-            name: "Gnosis Protocol",
-            version: "v2",
-            chainId: blockEvent.network,
-            verifyingContract: "0x9008D19f58AAbD9eD0D60971565AA8510560ab41",
-          },
-          {
-            ...order,
-            receiver:
-              order.receiver === ethers.constants.AddressZero
-                ? undefined
-                : order.receiver,
-          },
-          safeAddress
-        );
+        order = fromOrderData(tradeableOrder);
+      } catch (e) {
+        log.error("Unsupported order from getTradeableOrder", { error: e });
+        run.errors += 1;
+        return;
+      }
 
-        // if the orderUid has not been submitted, or filled, then place the order
-        if (!conditionalOrder.orders.has(orderUid)) {
-          console.log(
-            `Placing orderuid ${orderUid} with Order: ${JSON.stringify(order)}`
-          );
+      // calculate the orderUid
+      const orderUid = getOrderUid(blockEvent.network, order, safeAddress);
+      const orderLog = log.child({ orderUid });
 
-          await placeOrder(
+      // if the orderUid has not been submitted, its fill was reorged out, or a failed submission is due a retry, then place the order
+      const record = conditionalOrder.orders.get(orderUid);
+      if (
+        record === undefined ||
+        record.status === OrderStatus.REORGED ||
+        (record.status === OrderStatus.FAILED_SUBMISSION &&
+          (record.retryAt ?? 0) <= timestamp)
+      ) {
+        placements.push(async () => {
+          orderLog.info("Placing order", { order });
+          const status = await submitOrder(
+            conditionalOrder,
+            orderUid,
             { ...order, from: safeAddress, payload: conditionalOrder.payload },
-            chainContext.api_url
+            chainContext.api_url,
+            blockEvent.blockNumber,
+            timestamp,
+            orderLog
           );
+          if (status === OrderStatus.SUBMITTED) {
+            run.placed += 1;
+          } else {
+            run.errors += 1;
+          }
+        });
+      } else {
+        orderLog.debug("Order already placed", {
+          status: OrderStatus[record.status],
+        });
+        run.skipped += 1;
+      }
+    });
+
+    await runWithConcurrency(placements, MAX_CONCURRENT_PLACEMENTS);
 
-          conditionalOrder.orders.set(orderUid, OrderStatus.SUBMITTED);
+    // Update the registry
+    await registry.write();
+    await notifyChanges(context, registry, before, blockEvent.blockNumber);
+  }
+);
+
+/**
+ * Reconcile submitted orders with the orderbook, in case a settlement was
+ * missed. Orders that the orderbook reports as filled are recorded as settling
+ * (from the `Trade` in the transaction of the fill), and those it reports as
+ * expired or cancelled take that status. Orders that the orderbook has no
+ * record of are posted again if they are still valid, and are otherwise
+ * expired.
+ */
+export const reconcileOrders: ActionFn = instrument(
+  "reconcileOrders",
+  async (context: Context, event: Event, run: Run) => {
+    const blockEvent = event as BlockEvent;
+    const registry = await Registry.load(context, blockEvent.network);
+    const before = snapshot(registry);
+    const chainContext = await ChainContext.create(context, blockEvent.network);
+    const { timestamp } = await chainContext.provider.getBlock(
+      blockEvent.blockNumber
+    );
+
+    const tasks: (() => Promise<void>)[] = [];
+    const missing: {
+      safeAddress: string;
+      conditionalOrder: ConditionalOrder;
+      orderUid: string;
+      log: Logger;
+    }[] = [];
+    for (const [
+      safeAddress,
+      conditionalOrders,
+    ] of registry.safeOrders.entries()) {
+      for (const [hash, conditionalOrder] of conditionalOrders.entries()) {
+        for (const [orderUid, record] of conditionalOrder.orders.entries()) {
+          if (record.status !== OrderStatus.SUBMITTED) continue;
+          const log = run.log.child({
+            safe: safeAddress,
+            conditionalOrderHash: hash,
+            orderUid,
+          });
+          tasks.push(async () => {
+            try {
+              const apiOrder = await getOrderbookOrder(
+                chainContext.api_url,
+                orderUid
+              );
+              if (apiOrder === undefined) {
+                if ((record.validTo ?? 0) >= timestamp) {
+                  log.warn("Order is not in the orderbook");
+                  missing.push({
+                    safeAddress,
+                    conditionalOrder,
+                    orderUid,
+                    log,
+                  });
+                } else {
+                  log.info("Order is not in the orderbook, and expired");
+                  setOrderStatus(
+                    conditionalOrder,
+                    orderUid,
+                    OrderStatus.EXPIRED,
+                    blockEvent.blockNumber
+                  );
+                }
+                return;
+              }
+
+              switch (apiOrder.status) {
+                case "fulfilled":
+                  await reconcileFill(
+                    registry,
+                    chainContext,
+                    safeAddress,
+                    orderUid,
+                    log
+                  );
+                  break;
+                case "expired":
+                  log.info("Order expired unfilled");
+                  setOrderStatus(
+                    conditionalOrder,
+                    orderUid,
+                    OrderStatus.EXPIRED,
+                    blockEvent.blockNumber
+                  );
+                  break;
+                case "cancelled":
+                  log.info("Order was cancelled");
+                  setOrderStatus(
+                    conditionalOrder,
+                    orderUid,
+                    OrderStatus.CANCELLED,
+                    blockEvent.blockNumber
+                  );
+                  break;
+              }
+            } catch (e) {
+              log.error("Could not reconcile order", { error: e });
+              run.errors += 1;
+            }
+          });
+        }
+      }
+    }
+    run.checked = tasks.length;
+    await runWithConcurrency(tasks, MAX_CONCURRENT_PLACEMENTS);
+
+    // post the missing orders again, if they are still the tradeable order
+    const iface = ConditionalOrder__factory.createInterface();
+    const results = await aggregate(
+      chainContext.provider,
+      missing.map(({ safeAddress, conditionalOrder }) => ({
+        target: safeAddress,
+        callData: iface.encodeFunctionData("getTradeableOrder", [
+          conditionalOrder.payload,
+        ]),
+      })),
+      blockEvent.blockNumber
+    );
+    const placements: (() => Promise<void>)[] = [];
+    results.forEach(({ success, returnData }, i) => {
+      const { safeAddress, conditionalOrder, orderUid, log } = missing[i];
+      let order: Order | undefined;
+      if (success) {
+        try {
+          order = fromOrderData(
+            iface.decodeFunctionResult("getTradeableOrder", returnData)[0]
+          );
+        } catch {
+          order = undefined;
+        }
+      }
+      if (
+        order === undefined ||
+        getOrderUid(blockEvent.network, order, safeAddress) !== orderUid
+      ) {
+        log.info("Order is no longer tradeable");
+        run.skipped += 1;
+        return;
+      }
+
+      const tradeableOrder = order;
+      placements.push(async () => {
+        log.info("Placing order again");
+        const status = await submitOrder(
+          conditionalOrder,
+          orderUid,
+          {
+            ...tradeableOrder,
+            from: safeAddress,
+            payload: conditionalOrder.payload,
+          },
+          chainContext.api_url,
+          blockEvent.blockNumber,
+          timestamp,
+          log
+        );
+        if (status === OrderStatus.SUBMITTED) {
+          run.placed += 1;
         } else {
-          console.log(
-            `OrderUid ${orderUid} status: ${conditionalOrder.orders.get(
-              orderUid
-            )}`
+          run.errors += 1;
+        }
+      });
+    });
+    await runWithConcurrency(placements, MAX_CONCURRENT_PLACEMENTS);
+
+    await registry.write();
+    await notifyChanges(context, registry, before, blockEvent.blockNumber);
+  }
+);
+
+/**
+ * Record the fill of an order that the orderbook reports as fulfilled, from the
+ * `Trade` in the transaction that settled it
+ * @param registry to update
+ * @param chainContext of the network
+ * @param owner of the order
+ * @param orderUid of the order
+ * @param log with the context of the order
+ */
+const reconcileFill = async (
+  registry: Registry,
+  chainContext: ChainContext,
+  owner: string,
+  orderUid: string,
+  log: Logger
+) => {
+  const { data: trades } = await axios.get(
+    `${chainContext.api_url}/api/v1/trades`,
+    { params: { orderUid }, headers: { accept: "application/json" } }
+  );
+  for (const { txHash } of trades) {
+    const receipt = await chainContext.provider.getTransactionReceipt(txHash);
+    const trade = receipt && findTrade(receipt, orderUid);
+    if (!receipt || trade === undefined) {
+      log.info("Trade is not yet mined", { transactionHash: txHash });
+      continue;
+    }
+
+    log.info("Order was filled", { transactionHash: txHash });
+    recordTrade(
+      registry,
+      owner,
+      orderUid,
+      {
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        transactionHash: receipt.transactionHash,
+        timestamp: await getBlockTimestamp(
+          chainContext.provider,
+          receipt.blockHash
+        ),
+        sellAmount: trade.sellAmount.toString(),
+        buyAmount: trade.buyAmount.toString(),
+        feeAmount: trade.feeAmount.toString(),
+      },
+      log
+    );
+  }
+};
+
+/**
+ * Find the `Trade` of an order in a transaction
+ * @param receipt of the transaction
+ * @param orderUid of the order
+ * @returns the decoded `Trade`, or undefined if the transaction failed, or did not trade the order
+ */
+const findTrade = (
+  receipt: ethers.providers.TransactionReceipt,
+  orderUid: string
+): utils.Result | undefined => {
+  if (receipt.status !== 1) return undefined;
+  const iface = GPv2Settlement__factory.createInterface();
+  for (const log of receipt.logs) {
+    if (
+      utils.getAddress(log.address) !== SETTLEMENT ||
+      log.topics[0] !== iface.getEventTopic("Trade")
+    ) {
+      continue;
+    }
+    const trade = iface.decodeEventLog("Trade", log.data, log.topics);
+    if (trade.orderUid === orderUid) return trade;
+  }
+  return undefined;
+};
+
+/**
+ * Compute the UID of an order
+ * @param network chain id of the network
+ * @param order whose UID to compute
+ * @param owner of the order
+ * @returns the order UID
+ */
+const getOrderUid = (network: string, order: Order, owner: string): string => {
+  return computeOrderUid(
+    {
+      name: "Gnosis Protocol",
+      version: "v2",
+      chainId: network,
+      verifyingContract: SETTLEMENT,
+    },
+    {
+      ...order,
+      receiver:
+        order.receiver === ethers.constants.AddressZero
+          ? undefined
+          : order.receiver,
+    },
+    owner
+  );
+};
+
+/**
+ * Confirm the fills of settling orders once they have enough confirmations, and
+ * revert those whose transaction is no longer in the canonical chain (or no
+ * longer trades the order) to `SUBMITTED`, as the order is open again in the
+ * orderbook. A fill without a receipt is only reverted once the block it was
+ * in has been replaced, or it has enough confirmations.
+ * @param registry containing the settling orders
+ * @param provider to get the transaction receipts of the fills from
+ * @param blockNumber of the current block
+ * @param confirmations needed, including the block of the fill
+ * @param log to log the outcome of each fill to
+ */
+export const confirmFills = async (
+  registry: Registry,
+  provider: ethers.providers.Provider,
+  blockNumber: number,
+  confirmations: number,
+  log: Logger = logger
+) => {
+  const receipts = new Map<
+    string,
+    Promise<ethers.providers.TransactionReceipt | null>
+  >();
+
+  for (const [safe, conditionalOrders] of [
+    ...registry.safeOrders.entries(),
+    ...registry.archive.entries(),
+  ]) {
+    for (const [hash, conditionalOrder] of conditionalOrders.entries()) {
+      for (const [orderUid, record] of conditionalOrder.orders.entries()) {
+        const fill = record.fill;
+        if (record.status !== OrderStatus.SETTLING || fill === undefined) {
+          continue;
+        }
+        const orderLog = log.child({
+          safe,
+          conditionalOrderHash: hash,
+          orderUid,
+        });
+
+        if (!receipts.has(fill.transactionHash)) {
+          receipts.set(
+            fill.transactionHash,
+            provider.getTransactionReceipt(fill.transactionHash)
           );
         }
-      } catch (e: any) {
-        if (e.code === Logger.errors.CALL_EXCEPTION) {
-          switch (e.errorName) {
-            case "OrderNotValid":
-              // The conditional order has not expired, or been cancelled, but the order is not valid
-              // For example, with TWAPs, this may be after `span` seconds have passed in the epoch.
-              continue;
-            case "OrderExpired":
-              console.log(
-                `Conditional order on safe ${safeAddress} expired. Unfilled orders:`
-              );
-              printUnfilledOrders(conditionalOrder.orders);
-              console.log("Removing conditional order from registry");
-              conditionalOrders.delete(conditionalOrder);
-              continue;
-            case "OrderCancelled":
-              console.log(
-                `Conditional order on safe ${safeAddress} cancelled. Unfilled orders:`
-              );
-              printUnfilledOrders(conditionalOrder.orders);
-              console.log("Removing conditional order from registry");
-              conditionalOrders.delete(conditionalOrder);
-              continue;
+        const receipt = await receipts.get(fill.transactionHash);
+        if (!receipt) {
+          // A lagging node may not have indexed the transaction yet, so the
+          // fill is only reverted once its block is known to be replaced, or
+          // it is deep enough that the receipt should be there
+          const block = await provider
+            .getBlock(fill.blockNumber)
+            .catch(() => null);
+          const replaced = !!block && block.hash !== fill.blockHash;
+          if (!replaced && blockNumber - fill.blockNumber + 1 < confirmations) {
+            orderLog.debug("Receipt of the fill is not yet available", {
+              transactionHash: fill.transactionHash,
+            });
+            continue;
           }
         }
+        if (!receipt || findTrade(receipt, orderUid) === undefined) {
+          orderLog.warn("Fill was reorged out", {
+            fillBlockNumber: fill.blockNumber,
+            fillBlockHash: fill.blockHash,
+          });
+          setOrderStatus(
+            conditionalOrder,
+            orderUid,
+            OrderStatus.SUBMITTED,
+            blockNumber
+          ).fill = undefined;
+          continue;
+        }
 
-        console.log(`Not tradeable (${e})`);
+        if (receipt.blockHash !== fill.blockHash) {
+          // The transaction was included again, in another block
+          orderLog.info("Fill moved to another block", {
+            fillBlockNumber: receipt.blockNumber,
+            fillBlockHash: receipt.blockHash,
+          });
+          setOrderStatus(
+            conditionalOrder,
+            orderUid,
+            OrderStatus.SETTLING,
+            blockNumber
+          ).fill = {
+            ...fill,
+            blockNumber: receipt.blockNumber,
+            blockHash: receipt.blockHash,
+            timestamp: await getBlockTimestamp(provider, receipt.blockHash),
+          };
+        }
+
+        if (blockNumber - receipt.blockNumber + 1 >= confirmations) {
+          orderLog.info("Order filled", {
+            transactionHash: fill.transactionHash,
+          });
+          setOrderStatus(
+            conditionalOrder,
+            orderUid,
+            OrderStatus.FILLED,
+            blockNumber
+          );
+        }
       }
     }
   }
+};
+
+/**
+ * Convert a `GPv2Order.Data`, where the `kind` and balances are the `bytes32`
+ * hashes of their names, into an `Order`
+ * @param data as returned by `getTradeableOrder`
+ * @returns the order
+ * @throws if the `kind` or a balance is not one of the known values
+ */
+export const fromOrderData = (data: any): Order => {
+  return {
+    sellToken: data.sellToken,
+    buyToken: data.buyToken,
+    receiver: data.receiver,
+    sellAmount: data.sellAmount,
+    buyAmount: data.buyAmount,
+    validTo: data.validTo,
+    appData: data.appData,
+    feeAmount: data.feeAmount,
+    kind: fromHashedName(Object.values(OrderKind), data.kind, "kind"),
+    partiallyFillable: data.partiallyFillable,
+    sellTokenBalance: fromHashedName(
+      Object.values(OrderBalance),
+      data.sellTokenBalance,
+      "sellTokenBalance"
+    ),
+    buyTokenBalance: fromHashedName(
+      Object.values(OrderBalance),
+      data.buyTokenBalance,
+      "buyTokenBalance"
+    ),
+  };
+};
+
+/**
+ * Find the value whose name hashes to a `bytes32` (ie. `keccak256("sell")`)
+ */
+const fromHashedName = <T extends string>(
+  values: T[],
+  hash: string,
+  field: string
+): T => {
+  const value = values.find((value) => utils.id(value) === hash);
+  if (value === undefined) {
+    throw new Error(`unknown ${field} ${hash}`);
+  }
+  return value;
+};
+
+/**
+ * Decode the name of the custom error that a call reverted with
+ * @param iface of the contract that was called
+ * @param revertData returned by the call
+ * @returns the error name, or undefined if the error is not in the interface
+ */
+const parseRevert = (
+  iface: utils.Interface,
+  revertData: string
+): string | undefined => {
+  try {
+    return iface.parseError(revertData).name;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Run tasks, with at most `limit` running at once
+ * @param tasks to run
+ * @param limit on the number of tasks running at once
+ */
+const runWithConcurrency = async (
+  tasks: (() => Promise<void>)[],
+  limit: number
+) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      await tasks[next++]();
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, tasks.length) }, worker)
+  );
+};
+
+/**
+ * Post an order to the orderbook, and record the outcome.
+ *
+ * Orders that the orderbook already has are recorded as submitted. Orders that
+ * fail because the owner lacks the balance or allowance are retried with
+ * backoff until they expire, as are transient failures (network errors, 5xx
+ * and rate limiting) within a budget of attempts. Any other error means the
+ * orderbook will never accept the order, so it is rejected.
+ * @param conditionalOrder that the order belongs to
+ * @param orderUid of the order
+ * @param order to post, with its owner (`from`) and signature (`payload`)
+ * @param api_url of the orderbook
+ * @param blockNumber of the current block
+ * @param timestamp of the current block
+ * @param log with the context of the order
+ * @returns the status the order was recorded with
+ */
+const submitOrder = async (
+  conditionalOrder: ConditionalOrder,
+  orderUid: string,
+  order: any,
+  api_url: string,
+  blockNumber: number,
+  timestamp: number,
+  log: Logger
+): Promise<OrderStatus> => {
+  let status = OrderStatus.SUBMITTED;
+  let lastError: string | undefined;
+  let retry = false;
+  try {
+    await placeOrder(order, api_url, log);
+  } catch (error: any) {
+    const submissionError = classifyOrderbookError(error);
+    lastError = error.response?.data?.errorType ?? error.message;
+    switch (submissionError) {
+      case SubmissionError.DUPLICATE:
+        log.info("Order was already submitted");
+        break;
+      case SubmissionError.INSUFFICIENT_FUNDS:
+      case SubmissionError.TRANSIENT:
+        status = OrderStatus.FAILED_SUBMISSION;
+        retry = true;
+        break;
+      case SubmissionError.PERMANENT:
+        status = OrderStatus.REJECTED;
+        break;
+    }
+
+    const attempts = (conditionalOrder.orders.get(orderUid)?.attempts ?? 0) + 1;
+    if (
+      submissionError === SubmissionError.TRANSIENT &&
+      attempts >= MAX_TRANSIENT_ATTEMPTS
+    ) {
+      status = OrderStatus.REJECTED;
+      retry = false;
+    }
+  }
+
+  const record = setOrderStatus(
+    conditionalOrder,
+    orderUid,
+    status,
+    blockNumber
+  );
+  record.attempts += 1;
+  record.validTo = Number(order.validTo);
+  record.lastError = lastError;
+  record.retryAt = retry
+    ? timestamp +
+      Math.min(BASE_BACKOFF * 2 ** (record.attempts - 1), MAX_BACKOFF)
+    : undefined;
+  if (record.retryAt !== undefined) {
+    log.warn("Order submission failed, retrying", {
+      error: lastError,
+      retryAt: record.retryAt,
+    });
+  } else if (status === OrderStatus.REJECTED) {
+    log.error("Order was rejected", {
+      error: lastError,
+      attempts: record.attempts,
+    });
+  }
+  return status;
+};
+
+export enum SubmissionError {
+  // The orderbook already has the order
+  DUPLICATE,
+  // The owner lacks the balance or allowance to trade the order
+  INSUFFICIENT_FUNDS,
+  // The orderbook could not be reached, or failed to handle the request
+  TRANSIENT,
+  // The orderbook refused the order
+  PERMANENT,
+}
+
+/**
+ * Classify an error from posting an order to the orderbook
+ * @param error thrown by `axios`
+ * @returns how the error should be handled
+ */
+export const classifyOrderbookError = (error: any): SubmissionError => {
+  const httpStatus: number | undefined = error.response?.status;
+  const errorType: string | undefined = error.response?.data?.errorType;
+
+  switch (errorType) {
+    case "DuplicateOrder":
+    case "DuplicatedOrder":
+      return SubmissionError.DUPLICATE;
+    case "InsufficientBalance":
+    case "InsufficientAllowance":
+      return SubmissionError.INSUFFICIENT_FUNDS;
+  }
 
-  // Update the registry
-  await registry.write();
+  if (httpStatus === undefined || httpStatus === 429 || httpStatus >= 500) {
+    return SubmissionError.TRANSIENT;
+  }
+  return SubmissionError.PERMANENT;
 };
 
-// Print a list of all the orders that were placed and not filled
-export const printUnfilledOrders = (orders: Map<string, OrderStatus>) => {
-  console.log("Unfilled orders:");
-  for (const [orderUid, status] of orders.entries()) {
-    if (status === OrderStatus.SUBMITTED) {
-      console.log(orderUid);
+/**
+ * Mark submitted (failed, or reorged) orders whose `validTo` has passed as expired
+ * @param conditionalOrder whose orders to check
+ * @param blockNumber of the current block
+ * @param timestamp of the current block
+ * @param log with the context of the conditional order
+ */
+const expireOrders = (
+  conditionalOrder: ConditionalOrder,
+  blockNumber: number,
+  timestamp: number,
+  log: Logger
+) => {
+  for (const [orderUid, record] of conditionalOrder.orders.entries()) {
+    if (
+      (record.status === OrderStatus.SUBMITTED ||
+        record.status === OrderStatus.FAILED_SUBMISSION ||
+        record.status === OrderStatus.REORGED) &&
+      record.validTo !== undefined &&
+      record.validTo < timestamp
+    ) {
+      log.info("Order expired unfilled", { orderUid });
+      setOrderStatus(
+        conditionalOrder,
+        orderUid,
+        OrderStatus.EXPIRED,
+        blockNumber
+      );
     }
   }
 };
 
-async function placeOrder(order: any, api_url: string) {
+// List all the orders that were placed and not filled
+export const unfilledOrders = (orders: Map<string, OrderRecord>): string[] =>
+  [...orders.entries()]
+    .filter(([, { status }]) => status === OrderStatus.SUBMITTED)
+    .map(([orderUid]) => orderUid);
+
+/**
+ * Get an order from the orderbook
+ * @param api_url of the orderbook
+ * @param orderUid of the order
+ * @returns the order, or undefined if the orderbook has no record of it
+ */
+async function getOrderbookOrder(
+  api_url: string,
+  orderUid: string
+): Promise<any> {
+  try {
+    const { data } = await axios.get(`${api_url}/api/v1/orders/${orderUid}`, {
+      headers: { accept: "application/json" },
+    });
+    return data;
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function placeOrder(order: any, api_url: string, log: Logger) {
   try {
     const { data } = await axios.post(
       `${api_url}/api/v1/orders`,
@@ -188,8 +1122,14 @@ async function placeOrder(order: any, api_url: string) {
         validTo: order.validTo,
         appData: order.appData,
         feeAmount: order.feeAmount.toString(),
-        kind: "sell",
+        kind: order.kind,
         partiallyFillable: order.partiallyFillable,
+        sellTokenBalance: order.sellTokenBalance,
+        // `external` buy balances are treated as `erc20`, as in `computeOrderUid`
+        buyTokenBalance:
+          order.buyTokenBalance === OrderBalance.EXTERNAL
+            ? OrderBalance.ERC20
+            : order.buyTokenBalance,
         signature: order.payload,
         signingScheme: "eip1271",
         from: order.from,
@@ -201,35 +1141,36 @@ async function placeOrder(order: any, api_url: string) {
         },
       }
     );
-    console.log(`API response: ${data}`);
+    log.debug("Orderbook accepted the order", { response: data });
   } catch (error: any) {
     if (error.response) {
       // The request was made and the server responded with a status code
       // that falls out of the range of 2xx
-      console.log(error.response.status);
-      console.log(error.response.data);
-    } else if (error.request) {
-      // The request was made but no response was received
-      // `error.request` is an instance of XMLHttpRequest in the browser and an instance of
-      // http.ClientRequest in node.js
-      console.log(error.request);
-    } else if (error.message) {
-      // Something happened in setting up the request that triggered an Error
-      console.log("Error", error.message);
+      log.warn("Orderbook responded with an error", {
+        httpStatus: error.response.status,
+        response: error.response.data,
+      });
     } else {
-      console.log(error);
+      // The request was not made, or no response was received
+      log.warn("Could not reach the orderbook", { error });
     }
     throw error;
   }
 }
 
-class ChainContext {
+export class ChainContext {
   provider: ethers.providers.Provider;
   api_url: string;
+  confirmations: number;
 
-  constructor(provider: ethers.providers.Provider, api_url: string) {
+  constructor(
+    provider: ethers.providers.Provider,
+    api_url: string,
+    confirmations: number
+  ) {
     this.provider = provider;
     this.api_url = api_url;
+    this.confirmations = confirmations;
   }
 
   public static async create(
@@ -238,7 +1179,26 @@ class ChainContext {
   ): Promise<ChainContext> {
     const node_url = await context.secrets.get(`NODE_URL_${network}`);
     const provider = new ethers.providers.JsonRpcProvider(node_url);
-    return new ChainContext(provider, apiUrl(network));
+    const confirmations = await context.secrets
+      .get(`CONFIRMATIONS_${network}`)
+      .then(
+        (value) => {
+          const trimmed = value.trim();
+          if (/^[1-9][0-9]*$/.test(trimmed)) {
+            return Number(trimmed);
+          }
+          if (trimmed !== "") {
+            logger.warn("Invalid number of confirmations, using the default", {
+              network,
+              confirmations: value,
+              default: DEFAULT_CONFIRMATIONS,
+            });
+          }
+          return DEFAULT_CONFIRMATIONS;
+        },
+        () => DEFAULT_CONFIRMATIONS
+      );
+    return new ChainContext(provider, apiUrl(network), confirmations);
   }
 }
 
@@ -1,5 +1,5 @@
 import { Command, Option, InvalidOptionArgumentError } from "commander";
-import { BigNumberish, ethers, providers, utils } from "ethers";
+import { BigNumber, BigNumberish, ethers, providers, utils } from "ethers";
 import {
   MetaTransactionData,
   OperationType,
@@ -8,6 +8,12 @@ import {
 import EthersAdapter from "@safe-global/safe-ethers-lib";
 import SafeServiceClient from "@safe-global/safe-service-client";
 import Safe from "@safe-global/safe-core-sdk";
+import {
+  OrderBalance,
+  OrderKind,
+  computeOrderUid,
+} from "@cowprotocol/contracts";
+import axios from "axios";
 
 import {
   SignMessageLib__factory,
@@ -15,7 +21,20 @@ import {
   ConditionalOrder__factory,
   CoWSettlement__factory,
 } from "./types";
+import { scanLogs } from "../actions/logs";
+import { ConditionalOrderCodec } from "../actions/codec";
+import { detectCodec, getCodec, listCodecs } from "../actions/codecs";
+import {
+  TWAP_APP_DATA,
+  TWAPData,
+  twapCodec,
+  twapPartOrder,
+  twapPartValidTo,
+} from "../actions/twap";
 
+import { promises as fs } from "fs";
+import * as readline from "readline";
+import { Writable } from "stream";
 import * as dotenv from "dotenv";
 dotenv.config();
 
@@ -23,51 +42,101 @@ dotenv.config();
 const SIGN_MESSAGE_LIB = "0xA65387F16B013cf2Af4605Ad8aA5ec25a2cbA3a2";
 const SETTLEMENT = "0x9008D19f58AAbD9eD0D60971565AA8510560ab41";
 const RELAYER = "0xC92E8bdf79f0507f65a392b0ab4667716BFE0110";
+const TWAP_HANDLER = "0x87b52ed635df746ca29651581b4d87517aaa9a9f";
+
+// keccak256("fallback_manager.handler.address")
+const FALLBACK_HANDLER_STORAGE_SLOT =
+  "0x6c9a6c4a39284e37ed1cf53d337577d14212a4870fb976a4366c693b939918d5";
 
 const CONDITIONAL_ORDER_TYPEHASH =
   "0x59a89a42026f77464983113514109ddff8e510f0e62c114303617cb5ca97e091";
 const CANCELLED_CONDITIONAL_ORDER_TYPEHASH =
   "0xe2d395a4176e36febca53784f02b9bf31a44db36d5688fe8fc4306e6dfa54148";
 
-const TWAP_ORDER_STRUCT =
-  "tuple(address sellToken,address buyToken,address receiver,uint256 partSellAmount,uint256 minPartLimit,uint256 t0,uint256 n,uint256 t,uint256 span)";
-
-// The TWAP order data that is signed by Safe
-interface TWAPData {
-  sellToken: string;
-  buyToken: string;
-  receiver: string;
-  partSellAmount: BigNumberish;
-  minPartLimit: BigNumberish;
-  t0: number;
-  n: number;
-  t: number;
-  span: number;
-}
+// `GPv2Settlement.Trade`, which is not part of the vendored `CoWSettlement` interface
+const SETTLEMENT_TRADE_EVENT =
+  "event Trade(address indexed owner, address sellToken, address buyToken, uint256 sellAmount, uint256 buyAmount, uint256 feeAmount, bytes orderUid)";
 
 interface RootCliOptions {
   safeAddress: string;
   rpcUrl: string;
-  privateKey: string;
+  privateKey?: string;
+  keystore?: string;
+  passwordFile?: string;
+  mnemonic?: string;
+  derivationPath: string;
+  remoteSigner?: string;
+  signerAddress?: string;
+}
+
+interface SubmissionCliOptions extends RootCliOptions {
+  output?: string;
+  execute?: boolean;
+}
+
+interface ConditionalOrderCliOptions extends SubmissionCliOptions {
+  force?: boolean;
 }
 
-interface TWAPCliOptions extends RootCliOptions {
+interface TWAPCliOptions extends ConditionalOrderCliOptions {
   sellToken: string;
   buyToken: string;
   receiver: string;
-  totalSellAmount: string;
-  totalMinBuyAmount: string;
-  startTime: number;
+  totalSellAmount?: string;
+  totalMinBuyAmount?: string;
+  partSellAmount?: string;
+  partMinBuyAmount?: string;
+  rounding: Rounding;
+  slippageBps?: number;
+  limitPrice?: string;
+  apiUrl?: string;
+  startTime?: number;
   numParts: number;
-  timeInterval: number;
+  timeInterval?: number;
+  endTime?: number;
+  totalDuration?: number;
   span: number;
 }
 
-interface SetFallbackHandlerCliOptions extends RootCliOptions {
+/**
+ * How to split a total amount into `n` parts when it is not divisible by `n`
+ * - `down`: round the total down, dropping the remainder
+ * - `up`: round the total up, adding to each part
+ * - `exact`: refuse to split the total
+ */
+type Rounding = "down" | "up" | "exact";
+
+interface ScheduleCliOptions extends Partial<TWAPCliOptions> {
+  rpcUrl: string;
+  payload?: string;
+  format: "table" | "json";
+}
+
+interface StatusCliOptions extends RootCliOptions {
+  payload?: string;
+  orderHash?: string;
+  apiUrl?: string;
+  fromBlock: number;
+  format: "table" | "json";
+}
+
+interface ReportCliOptions extends RootCliOptions {
+  from?: number;
+  to?: number;
+  fromBlock: number;
+  format: "table" | "json" | "csv";
+}
+
+interface DecodeCliOptions {
+  payload: string;
+  type?: string;
+}
+
+interface SetFallbackHandlerCliOptions extends SubmissionCliOptions {
   handler: string;
 }
 
-interface CancelOrderCliOptions extends RootCliOptions {
+interface CancelOrderCliOptions extends SubmissionCliOptions {
   orderHash: string;
 }
 
@@ -89,6 +158,106 @@ const getTxServiceUrl = (chainId: number) => {
   }
 };
 
+/**
+ * Returns the URL of the CoW Protocol orderbook API for the given chainId
+ * @param chainId The chainId of the network
+ * @returns The base URL of the orderbook API
+ */
+const getApiUrl = (chainId: number) => {
+  switch (chainId) {
+    case 1:
+      return "https://api.cow.fi/mainnet";
+    case 5:
+      return "https://api.cow.fi/goerli";
+    case 100:
+      return "https://api.cow.fi/xdai";
+    default:
+      throw new Error(`Unsupported chainId: ${chainId}`);
+  }
+};
+
+/**
+ * Returns the signer selected by the CLI options. Exactly one of a private key,
+ * an encrypted JSON keystore, a mnemonic, or a remote JSON-RPC signer must be
+ * given.
+ * @param options CLI options selecting the signer
+ * @param provider JSON-RPC provider that the signer is connected to
+ * @returns The signer
+ */
+const getSigner = async (
+  options: RootCliOptions,
+  provider: providers.JsonRpcProvider
+): Promise<ethers.Signer> => {
+  const { privateKey, keystore, mnemonic, remoteSigner } = options;
+  const sources = [privateKey, keystore, mnemonic, remoteSigner].filter(
+    (source) => source !== undefined
+  );
+  if (sources.length !== 1) {
+    throw new Error(
+      "Exactly one of --private-key, --keystore, --mnemonic or --remote-signer is required to sign transactions"
+    );
+  }
+
+  if (privateKey) {
+    return new ethers.Wallet(privateKey, provider);
+  }
+
+  if (keystore) {
+    const json = await fs.readFile(keystore, "utf8");
+    const password = options.passwordFile
+      ? (await fs.readFile(options.passwordFile, "utf8")).trimEnd()
+      : await promptPassword(`Password for ${keystore}: `);
+    return (await ethers.Wallet.fromEncryptedJson(json, password)).connect(
+      provider
+    );
+  }
+
+  if (mnemonic) {
+    return ethers.Wallet.fromMnemonic(mnemonic, options.derivationPath).connect(
+      provider
+    );
+  }
+
+  // The remote signer handles `eth_signTypedData_v4`, `personal_sign` and
+  // `eth_sendTransaction` for the account, so it must be on the same chain
+  const remote = new ethers.providers.JsonRpcProvider(remoteSigner);
+  const [{ chainId }, { chainId: remoteChainId }] = await Promise.all([
+    provider.getNetwork(),
+    remote.getNetwork(),
+  ]);
+  if (chainId !== remoteChainId) {
+    throw new Error(
+      `Remote signer is on chain ${remoteChainId}, expected ${chainId}`
+    );
+  }
+  return remote.getSigner(options.signerAddress);
+};
+
+/**
+ * Prompts for a password on the terminal without echoing it
+ * @param query to display
+ * @returns The password entered
+ */
+const promptPassword = (query: string): Promise<string> => {
+  process.stdout.write(query);
+  // readline echoes what is typed to its output, so give it one that discards it
+  const muted = new Writable({
+    write: (_chunk, _encoding, callback) => callback(),
+  });
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: muted,
+    terminal: true,
+  });
+  return new Promise((resolve) => {
+    rl.question("", (password) => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(password);
+    });
+  });
+};
+
 /**
  * Returns a SafeServiceClient and Safe instance
  * @param safeAddress Address of the Safe
@@ -101,10 +270,10 @@ const getSafeAndService = async (
   safe: Safe;
   signer: ethers.Signer;
 }> => {
-  const { rpcUrl, privateKey, safeAddress } = options;
+  const { rpcUrl, safeAddress } = options;
 
   const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
-  const signerOrProvider = new ethers.Wallet(privateKey, provider);
+  const signerOrProvider = await getSigner(options, provider);
   const ethAdapter = new EthersAdapter({ ethers, signerOrProvider });
 
   const safeService = new SafeServiceClient({
@@ -118,16 +287,32 @@ const getSafeAndService = async (
 
 /**
  *
- * @param data corresponding to the TWAP order
+ * @param codec of the conditional order type
+ * @param data corresponding to the conditional order
  * @param provider JSON-RPC provider used to get the domain separator
- * @returns An EIP-712 digest and the ABI-encoded TWAP as a payload
+ * @returns An EIP-712 digest and the ABI-encoded conditional order as a payload
  */
-const encodeTwap = async (
-  data: TWAPData,
+const encodeConditionalOrder = async <T>(
+  codec: ConditionalOrderCodec<T>,
+  data: T,
   provider: providers.Provider
 ): Promise<{ digest: string; payload: string }> => {
-  const payload = utils.defaultAbiCoder.encode([TWAP_ORDER_STRUCT], [data]);
+  const payload = codec.encode(data);
+  const digest = await getConditionalOrderDigest(payload, provider);
+
+  return { digest, payload };
+};
 
+/**
+ * Returns the EIP-712 digest of `ConditionalOrder(bytes payload)`
+ * @param payload of the conditional order
+ * @param provider JSON-RPC provider used to get the domain separator
+ * @returns The conditional order hash, as used for cancelling
+ */
+const getConditionalOrderDigest = async (
+  payload: string,
+  provider: providers.Provider
+): Promise<string> => {
   const settlementContract = CoWSettlement__factory.connect(
     SETTLEMENT,
     provider
@@ -141,14 +326,12 @@ const encodeTwap = async (
     )
   );
 
-  const digest = utils.keccak256(
+  return utils.keccak256(
     ethers.utils.solidityPack(
       ["bytes1", "bytes1", "bytes32", "bytes32"],
       ["0x19", "0x01", domainSeparator, structHash]
     )
   );
-
-  return { digest, payload };
 };
 
 /**
@@ -191,6 +374,21 @@ const encodeCancelOrder = async (
  * @param options CLI and fallback handler options
  */
 async function setFallbackHandler(options: SetFallbackHandlerCliOptions) {
+  if (options.output) {
+    const setFallbackHandlerTx: MetaTransactionData = {
+      to: options.safeAddress,
+      data: new utils.Interface([
+        "function setFallbackHandler(address handler)",
+      ]).encodeFunctionData("setFallbackHandler", [options.handler]),
+      value: "0",
+    };
+    await writeTransactionBatch(options, [setFallbackHandlerTx], {
+      name: "Set fallback handler",
+      description: `Set the fallback handler of the Safe to ${options.handler}`,
+    });
+    return;
+  }
+
   const { safeService, safe, signer } = await getSafeAndService(options);
 
   const safeTransaction = await safe.createEnableFallbackHandlerTx(
@@ -198,11 +396,97 @@ async function setFallbackHandler(options: SetFallbackHandlerCliOptions) {
   );
 
   console.log(
-    `Proposing setFallbackHandler Transaction: ${JSON.stringify(
+    `Submitting setFallbackHandler Transaction: ${JSON.stringify(
       safeTransaction.data
     )}`
   );
-  await proposeTransaction(safe, safeService, safeTransaction, signer);
+  await submitTransaction(options, safe, safeService, safeTransaction, signer);
+}
+
+/**
+ * Returns the nonce to use for a new Safe transaction
+ * @param options CLI options
+ * @param safeService API client
+ * @returns The next nonce known to the transaction service when proposing (to
+ * queue after pending transactions), or undefined to use the on-chain nonce
+ * when executing directly
+ */
+async function getNonce(
+  options: SubmissionCliOptions,
+  safeService: SafeServiceClient
+): Promise<number | undefined> {
+  return options.execute
+    ? undefined
+    : await safeService.getNextNonce(options.safeAddress);
+}
+
+/**
+ * Execute or propose a transaction to a Safe, depending on the CLI options
+ * @param options CLI options
+ * @param safe on which the transaction is submitted
+ * @param safeService API client
+ * @param tx transaction to submit
+ * @param signer used to execute or propose the transaction
+ */
+async function submitTransaction(
+  options: SubmissionCliOptions,
+  safe: Safe,
+  safeService: SafeServiceClient,
+  tx: SafeTransaction,
+  signer: ethers.Signer
+) {
+  if (options.execute) {
+    await executeTransaction(safe, tx, signer);
+  } else {
+    await proposeTransaction(safe, safeService, tx, signer);
+  }
+}
+
+/**
+ * Execute a transaction on a Safe with `execTransaction`, where the signer
+ * alone meets the Safe's threshold. Waits for the transaction to be mined and
+ * prints any `ConditionalOrderCreated` events.
+ * @param safe on which the transaction is executed
+ * @param tx transaction to execute
+ * @param signer that is an owner of the Safe
+ */
+async function executeTransaction(
+  safe: Safe,
+  tx: SafeTransaction,
+  signer: ethers.Signer
+) {
+  const signerAddress = await signer.getAddress();
+  if (!(await safe.isOwner(signerAddress))) {
+    throw new Error(
+      `Cannot execute: ${signerAddress} is not an owner of the Safe`
+    );
+  }
+  const threshold = await safe.getThreshold();
+  if (threshold > 1) {
+    throw new Error(
+      `Cannot execute: the Safe's threshold is ${threshold}, propose the transaction instead`
+    );
+  }
+
+  const { hash, transactionResponse } = await safe.executeTransaction(tx);
+  console.log(`Executed Transaction hash: ${hash}`);
+  const receipt = await transactionResponse?.wait();
+  if (receipt === undefined) return;
+  console.log(`Confirmed in block ${receipt.blockNumber}`);
+
+  const iface = ConditionalOrder__factory.createInterface();
+  for (const log of receipt.logs) {
+    if (log.topics[0] === iface.getEventTopic("ConditionalOrderCreated")) {
+      const [owner, payload] = iface.decodeEventLog(
+        "ConditionalOrderCreated",
+        log.data,
+        log.topics
+      );
+      console.log(
+        `ConditionalOrderCreated(owner: ${owner}, payload: ${payload})`
+      );
+    }
+  }
 }
 
 /**
@@ -230,17 +514,58 @@ async function proposeTransaction(
 
   console.log(`Submitted Transaction hash: ${safeTxHash}`);
 }
+/**
+ * Write a batch of transactions to a file that can be imported into the Safe
+ * Transaction Builder, instead of proposing it to the transaction service.
+ * @param options CLI options, including the file to write to
+ * @param transactions batch of transactions to write
+ * @param meta name and description of the batch, and any conditional order data
+ */
+async function writeTransactionBatch(
+  options: SubmissionCliOptions,
+  transactions: MetaTransactionData[],
+  meta: {
+    name: string;
+    description: string;
+    conditionalOrderHash?: string;
+    conditionalOrderPayload?: string;
+  }
+) {
+  const provider = new ethers.providers.JsonRpcProvider(options.rpcUrl);
+  const { chainId } = await provider.getNetwork();
+
+  const batch = {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      ...meta,
+      createdFromSafeAddress: options.safeAddress,
+    },
+    transactions: transactions.map((tx) => ({
+      to: tx.to,
+      value: tx.value,
+      data: tx.data,
+      operation: tx.operation ?? OperationType.Call,
+      contractMethod: null,
+      contractInputsValues: null,
+    })),
+  };
+
+  await fs.writeFile(options.output!, JSON.stringify(batch, null, 2));
+  console.log(
+    `Wrote ${transactions.length} transaction(s) to ${options.output}`
+  );
+}
+
 /**
  * Cancel a `ConditionalOrder` by signing an EIP-712 message of `CancelOrder(bytes32 order)`
  * @param options CLI and `ConditionalOrder` options
  */
 async function cancelOrder(options: CancelOrderCliOptions) {
-  const { safeService, safe, signer } = await getSafeAndService(options);
+  const provider = new ethers.providers.JsonRpcProvider(options.rpcUrl);
 
-  const { digest } = await encodeCancelOrder(
-    options.orderHash,
-    signer.provider!
-  );
+  const { digest } = await encodeCancelOrder(options.orderHash, provider);
 
   const signatureTx: MetaTransactionData = {
     to: SIGN_MESSAGE_LIB,
@@ -252,15 +577,27 @@ async function cancelOrder(options: CancelOrderCliOptions) {
     operation: OperationType.DelegateCall,
   };
 
+  if (options.output) {
+    await writeTransactionBatch(options, [signatureTx], {
+      name: "Cancel conditional order",
+      description: `Cancel the conditional order ${options.orderHash}`,
+      conditionalOrderHash: options.orderHash,
+    });
+    return;
+  }
+
+  const { safeService, safe, signer } = await getSafeAndService(options);
   const safeTransaction = await safe.createTransaction({
     safeTransactionData: [signatureTx],
-    options: { nonce: await safeService.getNextNonce(options.safeAddress) },
+    options: { nonce: await getNonce(options, safeService) },
   });
 
   console.log(
-    `Proposing cancelOrder Transaction: ${JSON.stringify(safeTransaction.data)}`
+    `Submitting cancelOrder Transaction: ${JSON.stringify(
+      safeTransaction.data
+    )}`
   );
-  await proposeTransaction(safe, safeService, safeTransaction, signer);
+  await submitTransaction(options, safe, safeService, safeTransaction, signer);
 }
 
 /**
@@ -268,7 +605,8 @@ async function cancelOrder(options: CancelOrderCliOptions) {
  *
  * This function provides some utility math to calculate the part sell amount
  * and the min part limit, with units of sell token and buy token specified
- * in decimalised units (ie. to sell 1.5 WETH, specify 1.5).
+ * in decimalised units (ie. to sell 1.5 WETH, specify 1.5). The approval is
+ * for `partSellAmount * n`, the most that the TWAP can sell.
  *
  * This function batches together:
  * 1. Signing the `ConditionalOrder` data
@@ -277,38 +615,117 @@ async function cancelOrder(options: CancelOrderCliOptions) {
  * @param options CLI and TWAP order options
  */
 async function createTwapOrder(options: TWAPCliOptions) {
-  const { safeService, safe, signer } = await getSafeAndService(options);
-
-  const sellToken = ERC20__factory.connect(options.sellToken, signer);
-  const buyToken = ERC20__factory.connect(options.buyToken, signer);
+  const provider = new ethers.providers.JsonRpcProvider(options.rpcUrl);
 
-  // calculate the part sell amount
-  const totalSellAmount = utils.parseUnits(
-    options.totalSellAmount,
-    await sellToken.decimals()
+  const { twap, totalSellAmount, quote } = await getTwapData(options, provider);
+  const sellDecimals = await ERC20__factory.connect(
+    twap.sellToken,
+    provider
+  ).decimals();
+  const buyDecimals = await ERC20__factory.connect(
+    twap.buyToken,
+    provider
+  ).decimals();
+  if (quote) {
+    const quoteAmounts = `${utils.formatUnits(
+      twap.partSellAmount,
+      sellDecimals
+    )} for ${utils.formatUnits(quote.buyAmount, buyDecimals)}`;
+    const quotePrice = formatPrice(
+      twap.partSellAmount,
+      quote.buyAmount,
+      sellDecimals,
+      buyDecimals
+    );
+    console.log(
+      `Quote (id ${
+        quote.id
+      }) for each part: ${quoteAmounts} (price ${quotePrice}, fee ${utils.formatUnits(
+        quote.feeAmount,
+        sellDecimals
+      )}), less ${options.slippageBps} bps slippage`
+    );
+  }
+  console.log(
+    `Selling ${utils.formatUnits(
+      totalSellAmount,
+      sellDecimals
+    )} for at least ${utils.formatUnits(
+      BigNumber.from(twap.minPartLimit).mul(twap.n),
+      buyDecimals
+    )} in ${twap.n} parts (limit price ${formatPrice(
+      twap.partSellAmount,
+      twap.minPartLimit,
+      sellDecimals,
+      buyDecimals
+    )})`
   );
-  const partSellAmount = totalSellAmount.div(options.numParts);
 
-  // calculate the min part limit
-  const minBuyAmount = utils.parseUnits(
-    options.totalMinBuyAmount,
-    await buyToken.decimals()
+  printTwapTimes(twap);
+
+  await createConditionalOrder(
+    options,
+    provider,
+    twapCodec,
+    twap,
+    await checkTwapPreconditions(twap, options.safeAddress, provider),
+    [
+      {
+        to: twap.sellToken,
+        data: ERC20__factory.createInterface().encodeFunctionData("approve", [
+          RELAYER,
+          totalSellAmount,
+        ]),
+        value: "0",
+      },
+    ]
   );
-  const minPartLimit = minBuyAmount.div(options.numParts);
+}
 
-  const twap: TWAPData = {
-    sellToken: options.sellToken,
-    buyToken: options.buyToken,
-    receiver: options.receiver,
-    partSellAmount,
-    minPartLimit,
-    t0: options.startTime,
-    n: options.numParts,
-    t: options.timeInterval,
-    span: options.span,
-  };
+/**
+ * Create a `ConditionalOrder` of any type with a codec, by signing its data.
+ *
+ * This function batches together:
+ * 1. Signing the `ConditionalOrder` data
+ * 2. Any transactions that the order type needs (ie. approvals)
+ * 3. Broadcast the `ConditionalOrder` with `dispatch` to the watchtower
+ * @param options CLI options
+ * @param provider JSON-RPC provider used to get the domain separator
+ * @param codec of the conditional order type
+ * @param data of the conditional order
+ * @param problems found by pre-flight checks of the order type
+ * @param transactions to batch between signing and dispatching
+ */
+async function createConditionalOrder<T>(
+  options: ConditionalOrderCliOptions,
+  provider: providers.Provider,
+  codec: ConditionalOrderCodec<T>,
+  data: T,
+  problems: string[],
+  transactions: MetaTransactionData[]
+) {
+  const name = `${codec.name.toUpperCase()} order`;
+
+  try {
+    codec.validate(data);
+  } catch (e: any) {
+    problems = [e.message, ...problems];
+  }
+  if (problems.length > 0) {
+    const report = problems.map((problem) => `  - ${problem}`).join("\n");
+    if (!options.force) {
+      throw new Error(
+        `Refusing to create the ${name} (override with --force):\n${report}`
+      );
+    }
+    console.warn(`Creating the ${name} despite:\n${report}`);
+  }
 
-  const { digest, payload } = await encodeTwap(twap, signer.provider!);
+  const { digest, payload } = await encodeConditionalOrder(
+    codec,
+    data,
+    provider
+  );
 
   const safeTransactionData: MetaTransactionData[] = [
     {
@@ -320,14 +737,7 @@ async function createTwapOrder(options: TWAPCliOptions) {
       value: "0",
       operation: OperationType.DelegateCall,
     },
-    {
-      to: twap.sellToken,
-      data: ERC20__factory.createInterface().encodeFunctionData("approve", [
-        RELAYER,
-        totalSellAmount,
-      ]),
-      value: "0",
-    },
+    ...transactions,
     {
       to: options.safeAddress,
       data: ConditionalOrder__factory.createInterface().encodeFunctionData(
@@ -337,115 +747,1291 @@ async function createTwapOrder(options: TWAPCliOptions) {
       value: "0",
     },
   ];
+
+  if (options.output) {
+    await writeTransactionBatch(options, safeTransactionData, {
+      name: `Create ${name}`,
+      description: `Sign and dispatch the ${name} ${digest}`,
+      conditionalOrderHash: digest,
+      conditionalOrderPayload: payload,
+    });
+    return;
+  }
+
+  const { safeService, safe, signer } = await getSafeAndService(options);
   const safeTransaction = await safe.createTransaction({
     safeTransactionData,
-    options: { nonce: await safeService.getNextNonce(options.safeAddress) },
+    options: { nonce: await getNonce(options, safeService) },
   });
 
   console.log(
-    `Proposing TWAP Order Transaction: ${JSON.stringify(safeTransaction.data)}`
+    `Submitting ${name} Transaction: ${JSON.stringify(safeTransaction.data)}`
   );
-  await proposeTransaction(safe, safeService, safeTransaction, signer);
+  await submitTransaction(options, safe, safeService, safeTransaction, signer);
   console.log(`Conditional order hash for cancelling: ${digest}`);
 }
 
 /**
- * Options that are inherited by all commands
+ * Check that a TWAP order would be able to trade from the Safe's current state
+ * @param twap order data
+ * @param safeAddress of the Safe that creates the order
+ * @param provider JSON-RPC provider used to read the Safe's state
+ * @returns A description of each check that failed
  */
-class RootCommand extends Command {
-  createCommand(name?: string | undefined): Command {
-    const cmd = new Command(name);
-    cmd
-      .addOption(
-        new Option("-s, --safe-address <safeAddress>", "Address of the Safe")
-          .env("SAFE_ADDRESS")
-          .makeOptionMandatory(true)
-      )
-      .addOption(
-        new Option("-r --rpc-url <rpcUrl>", "URL of the Ethereum node")
-          .env("ETH_RPC_URL")
-          .makeOptionMandatory(true)
-      )
-      .addOption(
-        new Option(
-          "-p --private-key <privateKey>",
-          "Private key of the account that will sign transaction batches"
-        )
-          .env("PRIVATE_KEY")
-          .makeOptionMandatory(true)
+async function checkTwapPreconditions(
+  twap: TWAPData,
+  safeAddress: string,
+  provider: providers.Provider
+): Promise<string[]> {
+  const problems: string[] = [];
+
+  // Parts whose window has already closed can never trade. Part `p` is valid
+  // until `t0 + p * t + (span || t) - 1`, so the expired parts are the first
+  // `ceil((now - t0 - (span || t) + 1) / t)`. An invalid TWAP is reported when
+  // creating it, and may have no such schedule.
+  let valid = true;
+  try {
+    twapCodec.validate(twap);
+  } catch {
+    valid = false;
+  }
+  if (valid) {
+    const now = Math.floor(Date.now() / 1000);
+    const elapsed = BigNumber.from(now)
+      .sub(twap.t0)
+      .sub(twap.span.isZero() ? twap.t : twap.span)
+      .add(1);
+    const started = elapsed.lte(0)
+      ? BigNumber.from(0)
+      : elapsed.add(twap.t).sub(1).div(twap.t);
+    const expiredParts = started.gt(twap.n) ? twap.n : started;
+    if (expiredParts.gt(0)) {
+      problems.push(
+        `${expiredParts} of ${twap.n} parts have already expired (start time ${twap.t0} is in the past)`
       );
-    return cmd;
+    }
   }
-}
 
-// --- CLI parsers
+  const handler = utils.hexDataSlice(
+    await provider.getStorageAt(safeAddress, FALLBACK_HANDLER_STORAGE_SLOT),
+    12
+  );
+  if (handler.toLowerCase() !== TWAP_HANDLER.toLowerCase()) {
+    problems.push(
+      `The Safe's fallback handler is ${utils.getAddress(
+        handler
+      )}, not CoWTWAPFallbackHandler (${utils.getAddress(
+        TWAP_HANDLER
+      )}), use set-fallback-handler first`
+    );
+  }
+
+  const sellToken = ERC20__factory.connect(twap.sellToken, provider);
+  const totalSellAmount = BigNumber.from(twap.partSellAmount).mul(twap.n);
+  const [balance, allowance] = await Promise.all([
+    sellToken.balanceOf(safeAddress),
+    sellToken.allowance(safeAddress, RELAYER),
+  ]);
+  if (balance.lt(totalSellAmount)) {
+    problems.push(
+      `The Safe's sell token balance (${balance}) is less than the total sell amount (${totalSellAmount})`
+    );
+  }
+  if (!allowance.isZero()) {
+    problems.push(
+      `The Safe has an existing allowance of ${allowance} for GPv2VaultRelayer, which would be overwritten (this may affect other orders)`
+    );
+  }
+
+  return problems;
+}
 
 /**
- * Parses a number from the CLI
- * @param value raw user input for verification
- * @returns a sanitized string representing a number
+ * Get the amount of each part, either given directly or by splitting a total
+ * into `numParts` equal parts. Warns when the total is not divisible.
+ * @param total amount to split, in decimalised units
+ * @param part amount of each part, in decimalised units
+ * @param decimals of the token
+ * @param numParts number of parts
+ * @param rounding how to treat a total that is not divisible by `numParts`
+ * @param name of the amount, for messages
+ * @returns The amount of each part in token units
  */
-function cliParseInt(value: string, _: unknown): number {
-  const parsedValue = parseInt(value, 10);
-  if (isNaN(parsedValue)) {
-    throw new InvalidOptionArgumentError("Not a number.");
+function getPartAmount(
+  total: string | undefined,
+  part: string | undefined,
+  decimals: number,
+  numParts: number,
+  rounding: Rounding,
+  name: string
+): BigNumber {
+  if (part !== undefined) {
+    return utils.parseUnits(part, decimals);
   }
-  return parsedValue;
+  if (total === undefined) {
+    throw new Error(`Either the total or part ${name} amount is required`);
+  }
+
+  const totalAmount = utils.parseUnits(total, decimals);
+  const remainder = totalAmount.mod(numParts);
+  if (remainder.isZero()) {
+    return totalAmount.div(numParts);
+  }
+  if (rounding === "exact") {
+    throw new Error(
+      `The total ${name} amount of ${total} is not divisible into ${numParts} parts, use --rounding up or down`
+    );
+  }
+
+  const partAmount = totalAmount.div(numParts).add(rounding === "up" ? 1 : 0);
+  console.warn(
+    `Warning: the total ${name} amount of ${total} is not divisible into ${numParts} parts, rounding ${rounding} to ${utils.formatUnits(
+      partAmount.mul(numParts),
+      decimals
+    )}`
+  );
+  return partAmount;
 }
 
 /**
- * Parses an Ethereum address from the CLI
- * @param value raw user input for verification
- * @returns a sanitized string representing an Ethereum address
+ * Get the time interval of each part, either given directly, or derived from
+ * the end time or total duration of the TWAP and the number of parts.
+ * @param options CLI and TWAP order options
+ * @param t0 start time of the TWAP in epoch seconds
+ * @returns The time interval in seconds
  */
-function cliParseAddress(value: string, _: any): string {
-  if (!ethers.utils.isAddress(value)) {
-    throw new InvalidOptionArgumentError(`Invalid address: ${value}`);
+function getTimeInterval(options: TWAPCliOptions, t0: number): number {
+  if (options.timeInterval !== undefined) {
+    return options.timeInterval;
   }
 
-  return value;
+  let totalDuration: number;
+  if (options.endTime !== undefined) {
+    totalDuration = options.endTime - t0;
+    if (totalDuration <= 0) {
+      throw new Error(
+        `The end time ${formatTime(
+          options.endTime
+        )} must be after the start time ${formatTime(t0)}`
+      );
+    }
+  } else if (options.totalDuration !== undefined) {
+    totalDuration = options.totalDuration;
+  } else {
+    throw new Error(
+      "Either --time-interval, --end-time or --total-duration is required"
+    );
+  }
+
+  const t = Math.floor(totalDuration / options.numParts);
+  if (t * options.numParts !== totalDuration) {
+    console.warn(
+      `Warning: the total duration of ${formatDuration(
+        totalDuration
+      )} is not divisible into ${
+        options.numParts
+      } parts, the TWAP ends at ${formatTime(t0 + t * options.numParts)}`
+    );
+  }
+  return t;
 }
 
 /**
- * Parses a decimal number from the CLI
- * @param value raw user input for verification
- * @returns a sanitized string representing a decimal number
+ * Calculate the TWAP order data from the amounts given on the CLI, in
+ * decimalised units of the sell and buy tokens. Amounts are either totals,
+ * which are split into `n` parts, or the amounts of each part.
+ * @param options CLI and TWAP order options
+ * @param provider JSON-RPC provider used to get the token decimals
+ *
+ * Instead of a min buy amount, the min part limit may be derived from a limit
+ * price, or from a quote for a single part less a slippage tolerance.
+ * @returns The TWAP order data, the effective total sell amount in token
+ * units (`partSellAmount * n`), which is all that the TWAP can sell, and the
+ * quote that the min part limit was derived from, if any
  */
-function cliParseDecimalNumber(value: string, _: any): string {
-  // Verify that the value is a string with only digits and a single decimal point that may be a represented by a comma
-  if (!/^\d+(\.\d+)?$/.test(value)) {
-    throw new InvalidOptionArgumentError(`Invalid number: ${value}`);
+async function getTwapData(
+  options: TWAPCliOptions,
+  provider: providers.Provider
+): Promise<{ twap: TWAPData; totalSellAmount: BigNumber; quote?: Quote }> {
+  const sellToken = ERC20__factory.connect(options.sellToken, provider);
+  const buyToken = ERC20__factory.connect(options.buyToken, provider);
+  const [sellDecimals, buyDecimals] = await Promise.all([
+    sellToken.decimals(),
+    buyToken.decimals(),
+  ]);
+
+  // calculate the part sell amount
+  const partSellAmount = getPartAmount(
+    options.totalSellAmount,
+    options.partSellAmount,
+    sellDecimals,
+    options.numParts,
+    options.rounding,
+    "sell"
+  );
+
+  // calculate the min part limit, from a limit price, a quote, or the amounts
+  let minPartLimit: BigNumber;
+  let quote: Quote | undefined;
+  if (options.limitPrice !== undefined) {
+    minPartLimit = partSellAmount
+      .mul(utils.parseUnits(options.limitPrice, 18))
+      .mul(BigNumber.from(10).pow(buyDecimals))
+      .div(BigNumber.from(10).pow(sellDecimals + 18));
+  } else if (options.slippageBps !== undefined) {
+    const apiUrl =
+      options.apiUrl ?? getApiUrl((await provider.getNetwork()).chainId);
+    quote = await getQuote(apiUrl, {
+      sellToken: options.sellToken,
+      buyToken: options.buyToken,
+      receiver: options.receiver,
+      from: options.safeAddress,
+      sellAmount: partSellAmount,
+    });
+    minPartLimit = quote.buyAmount.mul(10000 - options.slippageBps).div(10000);
+  } else {
+    minPartLimit = getPartAmount(
+      options.totalMinBuyAmount,
+      options.partMinBuyAmount,
+      buyDecimals,
+      options.numParts,
+      options.rounding,
+      "min buy"
+    );
   }
 
-  // Replace the decimal point with a dot
-  value = value.replace(",", ".");
+  // the start time defaults to now, when the command is run
+  const t0 = options.startTime ?? Math.floor(Date.now() / 1000);
 
-  return value;
+  const twap: TWAPData = {
+    sellToken: options.sellToken,
+    buyToken: options.buyToken,
+    receiver: options.receiver,
+    partSellAmount,
+    minPartLimit,
+    t0: BigNumber.from(t0),
+    n: BigNumber.from(options.numParts),
+    t: BigNumber.from(getTimeInterval(options, t0)),
+    span: BigNumber.from(options.span),
+  };
+
+  return {
+    twap,
+    totalSellAmount: partSellAmount.mul(options.numParts),
+    quote,
+  };
 }
 
 /**
- * CLI entry point
+ * Format a time in both UTC and epoch seconds
+ * @param time in epoch seconds
+ * @returns The formatted time
  */
-async function main() {
-  const program = new RootCommand()
-    .name("conditional-orders")
-    .description(
-      "Dispatch or cancel conditional orders on Safe using CoW Protocol"
-    )
-    .version("0.0.1");
+function formatTime(time: number): string {
+  return `${new Date(time * 1000).toISOString()} (${time})`;
+}
 
-  program
-    .command("create-twap")
-    .description("Create a TWAP order")
-    .addOption(
+/**
+ * Format a duration in days, hours, minutes and seconds, and in seconds
+ * @param duration in seconds
+ * @returns The formatted duration
+ */
+function formatDuration(duration: number): string {
+  const units: [string, number][] = [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+    ["s", 1],
+  ];
+  let remaining = duration;
+  const parts: string[] = [];
+  for (const [unit, seconds] of units) {
+    if (remaining >= seconds) {
+      parts.push(`${Math.floor(remaining / seconds)}${unit}`);
+      remaining %= seconds;
+    }
+  }
+  return `${parts.join("") || "0s"} (${duration}s)`;
+}
+
+/**
+ * Print the start, interval, span and end of a TWAP order
+ * @param twap TWAP order data
+ */
+function printTwapTimes(twap: TWAPData) {
+  console.log(`Start time:    ${formatTime(twap.t0.toNumber())}`);
+  console.log(`Time interval: ${formatDuration(twap.t.toNumber())}`);
+  console.log(
+    `Span:          ${
+      twap.span.isZero()
+        ? "whole interval"
+        : formatDuration(twap.span.toNumber())
+    }`
+  );
+  console.log(
+    `End time:      ${formatTime(twap.t0.add(twap.n.mul(twap.t)).toNumber())}`
+  );
+}
+
+// The most parts that `schedule`, `status` and `report` list for a TWAP order
+const MAX_LISTED_PARTS = 1000;
+
+/**
+ * Check that the parts of a TWAP order can be listed
+ * @param twap TWAP order data, possibly decoded from an arbitrary payload
+ * @returns The number of parts of the TWAP order
+ * @throws if the TWAP order is invalid, or has more than `MAX_LISTED_PARTS` parts
+ */
+function listedPartCount(twap: TWAPData): number {
+  twapCodec.validate(twap);
+  if (twap.n.gt(MAX_LISTED_PARTS)) {
+    throw new Error(
+      `TWAP order has ${twap.n} parts, more than the ${MAX_LISTED_PARTS} that can be listed`
+    );
+  }
+  return twap.n.toNumber();
+}
+
+/**
+ * Print the schedule of every part of a TWAP order, either from the options
+ * given to `create-twap`, or from an existing payload.
+ * @param options CLI and TWAP order options, or a TWAP payload
+ */
+async function printTwapSchedule(options: ScheduleCliOptions) {
+  const provider = new ethers.providers.JsonRpcProvider(options.rpcUrl);
+
+  let twap: TWAPData;
+  if (options.payload) {
+    twap = twapCodec.decode(options.payload);
+  } else {
+    const missing = ["sellToken", "buyToken", "numParts"].filter(
+      (key) => options[key as keyof ScheduleCliOptions] === undefined
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Either --payload or the TWAP options are required, missing: ${missing.join(
+          ", "
+        )}`
+      );
+    }
+    ({ twap } = await getTwapData(options as TWAPCliOptions, provider));
+  }
+  const numParts = listedPartCount(twap);
+
+  const sellToken = ERC20__factory.connect(twap.sellToken, provider);
+  const buyToken = ERC20__factory.connect(twap.buyToken, provider);
+  const [sellDecimals, sellSymbol, buyDecimals, buySymbol] = await Promise.all([
+    sellToken.decimals(),
+    sellToken.symbol(),
+    buyToken.decimals(),
+    buyToken.symbol(),
+  ]);
+
+  const partSellAmount = utils.formatUnits(twap.partSellAmount, sellDecimals);
+  const minPartLimit = utils.formatUnits(twap.minPartLimit, buyDecimals);
+  const limitPrice = Number(minPartLimit) / Number(partSellAmount);
+
+  const parts = Array.from({ length: numParts }, (_, part) => {
+    const windowOpen = twap.t0.add(twap.t.mul(part)).toNumber();
+    const validTo = twapPartValidTo(twap, part);
+    return {
+      part,
+      windowOpen: new Date(windowOpen * 1000).toISOString(),
+      windowClose: new Date(validTo * 1000).toISOString(),
+      validTo,
+      sellAmount: `${partSellAmount} ${sellSymbol}`,
+      minBuyAmount: `${minPartLimit} ${buySymbol}`,
+      limitPrice: `${limitPrice} ${buySymbol}/${sellSymbol}`,
+    };
+  });
+
+  if (options.format === "json") {
+    console.log(
+      JSON.stringify(
+        {
+          sellToken: twap.sellToken,
+          buyToken: twap.buyToken,
+          receiver: twap.receiver,
+          totalSellAmount: utils.formatUnits(
+            BigNumber.from(twap.partSellAmount).mul(twap.n),
+            sellDecimals
+          ),
+          totalMinBuyAmount: utils.formatUnits(
+            BigNumber.from(twap.minPartLimit).mul(twap.n),
+            buyDecimals
+          ),
+          parts,
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    console.log(
+      `Selling ${utils.formatUnits(
+        BigNumber.from(twap.partSellAmount).mul(twap.n),
+        sellDecimals
+      )} ${sellSymbol} (${twap.sellToken}) for at least ${utils.formatUnits(
+        BigNumber.from(twap.minPartLimit).mul(twap.n),
+        buyDecimals
+      )} ${buySymbol} (${twap.buyToken}) in ${twap.n} parts every ${
+        twap.t
+      } seconds`
+    );
+    printTwapTimes(twap);
+    console.table(parts);
+  }
+}
+
+/**
+ * Find the payload of a conditional order created by a Safe from its hash
+ * @param safeAddress that created the conditional order
+ * @param orderHash of the conditional order
+ * @param provider JSON-RPC provider used to search `ConditionalOrderCreated` logs
+ * @param fromBlock from which to search for logs
+ * @returns The payload of the conditional order
+ */
+async function findPayload(
+  safeAddress: string,
+  orderHash: string,
+  provider: providers.Provider,
+  fromBlock: number
+): Promise<string> {
+  const iface = ConditionalOrder__factory.createInterface();
+  const logs = await provider.getLogs({
+    fromBlock,
+    toBlock: "latest",
+    topics: [
+      iface.getEventTopic("ConditionalOrderCreated"),
+      utils.hexZeroPad(safeAddress, 32),
+    ],
+  });
+
+  for (const log of logs) {
+    const [, payload] = iface.decodeEventLog(
+      "ConditionalOrderCreated",
+      log.data,
+      log.topics
+    );
+    const digest = await getConditionalOrderDigest(payload, provider);
+    if (digest.toLowerCase() === orderHash.toLowerCase()) {
+      return payload;
+    }
+  }
+
+  throw new Error(
+    `No conditional order ${orderHash} created by ${safeAddress} since block ${fromBlock}`
+  );
+}
+
+// Errors that `getTradeableOrder` reverts with for the state of the conditional order
+const CONDITIONAL_ORDER_ERRORS = [
+  "OrderNotValid",
+  "OrderNotSigned",
+  "OrderExpired",
+  "OrderCancelled",
+];
+
+/**
+ * Check whether a Safe cancelled a conditional order, in which case
+ * `getTradeableOrder` reverts with `OrderCancelled`
+ * @param safeAddress of the Safe that created the conditional order
+ * @param payload of the conditional order
+ * @param provider JSON-RPC provider to call the Safe with
+ * @returns whether the conditional order is cancelled
+ * @throws if the call fails for any other reason (ie. a network error, or the
+ * address is not a Safe with the handler)
+ */
+async function isCancelled(
+  safeAddress: string,
+  payload: string,
+  provider: providers.Provider
+): Promise<boolean> {
+  try {
+    await ConditionalOrder__factory.connect(
+      safeAddress,
+      provider
+    ).callStatic.getTradeableOrder(payload);
+    return false;
+  } catch (e: any) {
+    if (!CONDITIONAL_ORDER_ERRORS.includes(e.errorName)) throw e;
+    return e.errorName === "OrderCancelled";
+  }
+}
+
+// The most orderbook API requests that `status` makes at once
+const MAX_CONCURRENT_API_REQUESTS = 5;
+
+enum PartStatus {
+  NOT_DUE = "not yet due",
+  OPEN = "open",
+  FILLED = "filled",
+  EXPIRED = "expired unfilled",
+  CANCELLED = "cancelled",
+}
+
+/**
+ * Print the status of every part of a conditional order of type TWAP
+ * @param options CLI and conditional order options
+ */
+async function printOrderStatus(options: StatusCliOptions) {
+  const provider = new ethers.providers.JsonRpcProvider(options.rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  const apiUrl = options.apiUrl ?? getApiUrl(chainId);
+
+  let payload = options.payload;
+  if (!payload) {
+    if (!options.orderHash) {
+      throw new Error("Either --payload or --order-hash is required");
+    }
+    payload = await findPayload(
+      options.safeAddress,
+      options.orderHash,
+      provider,
+      options.fromBlock
+    );
+  }
+  const twap = twapCodec.decode(payload);
+  const numParts = listedPartCount(twap);
+
+  const cancelled = await isCancelled(options.safeAddress, payload, provider);
+
+  const now = Math.floor(Date.now() / 1000);
+  const orders = Array.from({ length: numParts }, (_, part) => ({
+    part,
+    windowOpen: twap.t0.add(twap.t.mul(part)).toNumber(),
+    validTo: twapPartValidTo(twap, part),
+    orderUid: computeOrderUid(
+      {
+        name: "Gnosis Protocol",
+        version: "v2",
+        chainId,
+        verifyingContract: SETTLEMENT,
+      },
+      twapPartOrder(twap, part),
+      options.safeAddress
+    ),
+  }));
+
+  // Only parts whose window has opened can be in the orderbook
+  const apiOrders = new Map<number, any>();
+  const pending = orders.filter(({ windowOpen }) => windowOpen <= now);
+  const worker = async () => {
+    for (
+      let order = pending.shift();
+      order !== undefined;
+      order = pending.shift()
+    ) {
+      apiOrders.set(order.part, await getApiOrder(apiUrl, order.orderUid));
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.min(MAX_CONCURRENT_API_REQUESTS, pending.length) },
+      worker
+    )
+  );
+
+  const parts = orders.map(({ part, windowOpen, validTo, orderUid }) => {
+    const apiOrder = apiOrders.get(part);
+    let status: PartStatus;
+    if (apiOrder?.status === "fulfilled") {
+      status = PartStatus.FILLED;
+    } else if (apiOrder?.status === "cancelled" || cancelled) {
+      status = PartStatus.CANCELLED;
+    } else if (now < windowOpen) {
+      status = PartStatus.NOT_DUE;
+    } else if (apiOrder?.status === "expired" || now > validTo) {
+      status = PartStatus.EXPIRED;
+    } else {
+      status = PartStatus.OPEN;
+    }
+
+    return {
+      part,
+      orderUid,
+      validTo,
+      status,
+      submitted: apiOrder !== undefined,
+      executedSellAmount: apiOrder?.executedSellAmount ?? "0",
+      executedBuyAmount: apiOrder?.executedBuyAmount ?? "0",
+    };
+  });
+
+  if (options.format === "json") {
+    console.log(JSON.stringify({ payload, cancelled, parts }, null, 2));
+  } else {
+    console.table(parts);
+  }
+}
+
+/**
+ * Decode a conditional order payload of any registered type, and print its data
+ * @param options CLI options with the payload, and optionally its type
+ */
+function decodeConditionalOrder(options: DecodeCliOptions) {
+  let codec: ConditionalOrderCodec;
+  let data: any;
+  if (options.type) {
+    codec = getCodec(options.type);
+    data = codec.decode(options.payload);
+  } else {
+    const detected = detectCodec(options.payload);
+    if (detected === undefined) {
+      throw new Error(
+        `The payload is not a valid conditional order of any type: ${listCodecs().join(
+          ", "
+        )}`
+      );
+    }
+    ({ codec, data } = detected);
+  }
+
+  console.log(`Type: ${codec.name}`);
+  try {
+    codec.validate(data);
+  } catch (e: any) {
+    console.warn(`Invalid: ${e.message}`);
+  }
+  console.table(codec.describe(data));
+}
+
+interface ReportTrade {
+  sellAmount: BigNumber;
+  buyAmount: BigNumber;
+  feeAmount: BigNumber;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * A row of the execution report, for either a part of a TWAP order, or the
+ * total of all its parts (`part` is `total`). Amounts and prices are in
+ * decimalised units, and prices are of buy token per sell token, counting fees
+ * as sold. The benchmark columns are placeholders for a time-weighted average
+ * price from an external source.
+ */
+interface ReportRow {
+  conditionalOrderHash: string;
+  part: number | "total";
+  orderUid: string;
+  windowOpen: string;
+  validTo: string;
+  status: string;
+  sellToken: string;
+  buyToken: string;
+  sellAmount: string;
+  buyAmount: string;
+  feeAmount: string;
+  limitPrice: string;
+  realizedPrice: string;
+  improvementBps: string;
+  benchmarkPrice: string;
+  benchmarkBps: string;
+  transactionHash: string;
+  filledAt: string;
+}
+
+/**
+ * Report the execution of every TWAP order created by a Safe, from its
+ * `ConditionalOrderCreated` logs and the `Trade` logs of each part's order.
+ * @param options CLI and report options
+ */
+async function printExecutionReport(options: ReportCliOptions) {
+  const provider = new ethers.providers.JsonRpcProvider(options.rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  const conditionalOrderIface = ConditionalOrder__factory.createInterface();
+  const settlementIface = new utils.Interface([SETTLEMENT_TRADE_EVENT]);
+  const safeTopic = utils.hexZeroPad(options.safeAddress, 32);
+
+  const createdTopic = conditionalOrderIface.getEventTopic(
+    "ConditionalOrderCreated"
+  );
+  const createdLogs: providers.Log[] = [];
+  const tradeLogs: providers.Log[] = [];
+  await scanLogs(
+    provider,
+    [
+      { topics: [createdTopic, safeTopic] },
+      {
+        address: SETTLEMENT,
+        topics: [settlementIface.getEventTopic("Trade"), safeTopic],
+      },
+    ],
+    options.fromBlock,
+    await provider.getBlockNumber(),
+    async (_fromBlock, _toBlock, logs) => {
+      for (const log of logs) {
+        (log.topics[0] === createdTopic ? createdLogs : tradeLogs).push(log);
+      }
+    }
+  );
+
+  const trades = new Map<string, ReportTrade[]>();
+  for (const log of tradeLogs) {
+    const { orderUid, sellAmount, buyAmount, feeAmount } =
+      settlementIface.decodeEventLog("Trade", log.data, log.topics);
+    trades.set(orderUid, [
+      ...(trades.get(orderUid) ?? []),
+      {
+        sellAmount,
+        buyAmount,
+        feeAmount,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+      },
+    ]);
+  }
+
+  const timestamps = new Map<number, number>();
+  const getTimestamp = async (blockNumber: number): Promise<number> => {
+    if (!timestamps.has(blockNumber)) {
+      timestamps.set(
+        blockNumber,
+        (await provider.getBlock(blockNumber)).timestamp
+      );
+    }
+    return timestamps.get(blockNumber)!;
+  };
+
+  const decimals = new Map<string, number>();
+  const getDecimals = async (token: string): Promise<number> => {
+    if (!decimals.has(token)) {
+      decimals.set(
+        token,
+        await ERC20__factory.connect(token, provider).decimals()
+      );
+    }
+    return decimals.get(token)!;
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+  const rows: ReportRow[] = [];
+  for (const log of createdLogs) {
+    const [, payload] = conditionalOrderIface.decodeEventLog(
+      "ConditionalOrderCreated",
+      log.data,
+      log.topics
+    );
+    let twap: TWAPData;
+    try {
+      twap = twapCodec.decode(payload);
+    } catch {
+      continue;
+    }
+    let numParts: number;
+    try {
+      numParts = listedPartCount(twap);
+    } catch (e: any) {
+      console.warn(
+        `Skipping conditional order created in ${log.transactionHash}: ${e.message}`
+      );
+      continue;
+    }
+
+    // only TWAPs that were running at some time in the date range
+    const end = twap.t0.add(twap.n.mul(twap.t)).toNumber();
+    if (
+      (options.from !== undefined && end <= options.from) ||
+      (options.to !== undefined && twap.t0.gt(options.to))
+    ) {
+      continue;
+    }
+
+    const conditionalOrderHash = await getConditionalOrderDigest(
+      payload,
+      provider
+    );
+    const [sellDecimals, buyDecimals] = await Promise.all([
+      getDecimals(twap.sellToken),
+      getDecimals(twap.buyToken),
+    ]);
+    const limitPrice = formatPrice(
+      twap.partSellAmount,
+      twap.minPartLimit,
+      sellDecimals,
+      buyDecimals
+    );
+
+    const cancelled = await isCancelled(options.safeAddress, payload, provider);
+
+    const row = (
+      part: number | "total",
+      sold: BigNumber,
+      bought: BigNumber,
+      fees: BigNumber
+    ): ReportRow => {
+      const filled = !sold.add(fees).isZero();
+      return {
+        conditionalOrderHash,
+        part,
+        orderUid: "",
+        windowOpen: "",
+        validTo: "",
+        status: "",
+        sellToken: twap.sellToken,
+        buyToken: twap.buyToken,
+        sellAmount: utils.formatUnits(sold, sellDecimals),
+        buyAmount: utils.formatUnits(bought, buyDecimals),
+        feeAmount: utils.formatUnits(fees, sellDecimals),
+        limitPrice,
+        realizedPrice: filled
+          ? formatPrice(sold.add(fees), bought, sellDecimals, buyDecimals)
+          : "",
+        improvementBps: filled
+          ? bought
+              .mul(twap.partSellAmount)
+              .mul(10000)
+              .div(sold.add(fees).mul(twap.minPartLimit))
+              .sub(10000)
+              .toString()
+          : "",
+        benchmarkPrice: "",
+        benchmarkBps: "",
+        transactionHash: "",
+        filledAt: "",
+      };
+    };
+
+    const total = {
+      sold: BigNumber.from(0),
+      bought: BigNumber.from(0),
+      fees: BigNumber.from(0),
+      filled: 0,
+    };
+    for (let part = 0; part < numParts; part++) {
+      const windowOpen = twap.t0.add(twap.t.mul(part)).toNumber();
+      const validTo = twapPartValidTo(twap, part);
+      const orderUid = computeOrderUid(
+        {
+          name: "Gnosis Protocol",
+          version: "v2",
+          chainId,
+          verifyingContract: SETTLEMENT,
+        },
+        twapPartOrder(twap, part),
+        options.safeAddress
+      );
+
+      const partTrades = trades.get(orderUid) ?? [];
+      const sum = (key: "sellAmount" | "buyAmount" | "feeAmount") =>
+        partTrades.reduce(
+          (acc, trade) => acc.add(trade[key]),
+          BigNumber.from(0)
+        );
+      const [sold, bought, fees] = [
+        sum("sellAmount"),
+        sum("buyAmount"),
+        sum("feeAmount"),
+      ];
+      total.sold = total.sold.add(sold);
+      total.bought = total.bought.add(bought);
+      total.fees = total.fees.add(fees);
+
+      let status: PartStatus;
+      if (partTrades.length > 0) {
+        status = PartStatus.FILLED;
+        total.filled += 1;
+      } else if (cancelled) {
+        status = PartStatus.CANCELLED;
+      } else if (now < windowOpen) {
+        status = PartStatus.NOT_DUE;
+      } else if (now > validTo) {
+        status = PartStatus.EXPIRED;
+      } else {
+        status = PartStatus.OPEN;
+      }
+
+      const lastTrade = partTrades[partTrades.length - 1];
+      rows.push({
+        ...row(part, sold, bought, fees),
+        orderUid,
+        windowOpen: new Date(windowOpen * 1000).toISOString(),
+        validTo: new Date(validTo * 1000).toISOString(),
+        status,
+        transactionHash: lastTrade?.transactionHash ?? "",
+        filledAt: lastTrade
+          ? new Date(
+              (await getTimestamp(lastTrade.blockNumber)) * 1000
+            ).toISOString()
+          : "",
+      });
+    }
+
+    rows.push({
+      ...row("total", total.sold, total.bought, total.fees),
+      windowOpen: new Date(twap.t0.toNumber() * 1000).toISOString(),
+      validTo: new Date((end - 1) * 1000).toISOString(),
+      status: `${total.filled} of ${twap.n} filled`,
+    });
+  }
+
+  switch (options.format) {
+    case "json":
+      console.log(
+        JSON.stringify(
+          {
+            safeAddress: options.safeAddress,
+            from: options.from,
+            to: options.to,
+            conditionalOrders: Array.from(
+              new Set(rows.map((row) => row.conditionalOrderHash))
+            ).map((hash) => {
+              const orderRows = rows.filter(
+                (row) => row.conditionalOrderHash === hash
+              );
+              return {
+                conditionalOrderHash: hash,
+                parts: orderRows.filter((row) => row.part !== "total"),
+                total: orderRows.find((row) => row.part === "total"),
+              };
+            }),
+          },
+          null,
+          2
+        )
+      );
+      break;
+    case "csv":
+      console.log(toCsv(rows));
+      break;
+    default:
+      console.table(rows);
+  }
+}
+
+/**
+ * Format rows as CSV, with a header of the keys of the first row
+ * @param rows to format
+ * @returns The CSV
+ */
+function toCsv<T extends object>(rows: T[]): string {
+  if (rows.length === 0) return "";
+  const escape = (value: unknown): string => {
+    const str = String(value ?? "");
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  const keys = Object.keys(rows[0]) as (keyof T)[];
+  return [
+    keys.join(","),
+    ...rows.map((row) => keys.map((key) => escape(row[key])).join(",")),
+  ].join("\n");
+}
+
+/**
+ * Get an order from the orderbook API
+ * @param apiUrl base URL of the orderbook API
+ * @param orderUid of the order
+ * @returns The order, or undefined if the orderbook has no record of it
+ */
+async function getApiOrder(apiUrl: string, orderUid: string): Promise<any> {
+  try {
+    const { data } = await axios.get(`${apiUrl}/api/v1/orders/${orderUid}`, {
+      headers: { accept: "application/json" },
+    });
+    return data;
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+interface QuoteRequest {
+  sellToken: string;
+  buyToken: string;
+  receiver: string;
+  from: string;
+  sellAmount: BigNumber;
+}
+
+interface Quote {
+  id?: number;
+  sellAmount: BigNumber;
+  buyAmount: BigNumber;
+  feeAmount: BigNumber;
+}
+
+/**
+ * Get a quote from the orderbook API to sell an amount of a token, for an
+ * order with the same parameters as a part of a TWAP order.
+ * @param apiUrl base URL of the orderbook API
+ * @param request the tokens and amount to quote
+ * @returns The quote, where `buyAmount` is net of the fee
+ */
+async function getQuote(apiUrl: string, request: QuoteRequest): Promise<Quote> {
+  const { data } = await axios.post(
+    `${apiUrl}/api/v1/quote`,
+    {
+      sellToken: request.sellToken,
+      buyToken: request.buyToken,
+      receiver:
+        request.receiver === ethers.constants.AddressZero
+          ? undefined
+          : request.receiver,
+      appData: TWAP_APP_DATA,
+      partiallyFillable: false,
+      sellTokenBalance: OrderBalance.ERC20,
+      buyTokenBalance: OrderBalance.ERC20,
+      from: request.from,
+      kind: OrderKind.SELL,
+      sellAmountBeforeFee: request.sellAmount.toString(),
+    },
+    { headers: { accept: "application/json" } }
+  );
+  return {
+    id: data.id,
+    sellAmount: BigNumber.from(data.quote.sellAmount),
+    buyAmount: BigNumber.from(data.quote.buyAmount),
+    feeAmount: BigNumber.from(data.quote.feeAmount),
+  };
+}
+
+/**
+ * Format the price of buy token per sell token between two amounts
+ * @param sellAmount in sell token units
+ * @param buyAmount in buy token units
+ * @param sellDecimals of the sell token
+ * @param buyDecimals of the buy token
+ * @returns The price in decimalised units
+ */
+function formatPrice(
+  sellAmount: BigNumberish,
+  buyAmount: BigNumberish,
+  sellDecimals: number,
+  buyDecimals: number
+): string {
+  return (
+    Number(utils.formatUnits(buyAmount, buyDecimals)) /
+    Number(utils.formatUnits(sellAmount, sellDecimals))
+  ).toString();
+}
+
+/**
+ * Options that are inherited by all commands
+ */
+// Root options that a command does not use, and so may be omitted (ie. by
+// commands that work offline)
+const UNUSED_ROOT_OPTIONS: Record<string, ("safeAddress" | "rpcUrl")[]> = {
+  decode: ["safeAddress", "rpcUrl"],
+  schedule: ["safeAddress"],
+};
+
+class RootCommand extends Command {
+  createCommand(name?: string | undefined): Command {
+    const unused = UNUSED_ROOT_OPTIONS[name ?? ""] ?? [];
+    const cmd = new Command(name);
+    cmd
+      .addOption(
+        new Option("-s, --safe-address <safeAddress>", "Address of the Safe")
+          .env("SAFE_ADDRESS")
+          .makeOptionMandatory(!unused.includes("safeAddress"))
+      )
+      .addOption(
+        new Option("-r --rpc-url <rpcUrl>", "URL of the Ethereum node")
+          .env("ETH_RPC_URL")
+          .makeOptionMandatory(!unused.includes("rpcUrl"))
+      )
+      .addOption(
+        new Option(
+          "-p --private-key <privateKey>",
+          "Private key of the account that will sign transaction batches"
+        ).env("PRIVATE_KEY")
+      )
+      .addOption(
+        new Option(
+          "--keystore <file>",
+          "Encrypted JSON keystore of the account that will sign transaction batches"
+        ).env("KEYSTORE")
+      )
+      .addOption(
+        new Option(
+          "--password-file <file>",
+          "File containing the keystore password, instead of prompting for it"
+        ).env("KEYSTORE_PASSWORD_FILE")
+      )
+      .addOption(
+        new Option(
+          "--mnemonic <mnemonic>",
+          "BIP-39 mnemonic of the account that will sign transaction batches"
+        ).env("MNEMONIC")
+      )
+      .addOption(
+        new Option(
+          "--derivation-path <path>",
+          "Derivation path of the account when using a mnemonic"
+        )
+          .env("DERIVATION_PATH")
+          .default(ethers.utils.defaultPath)
+      )
+      .addOption(
+        new Option(
+          "--remote-signer <url>",
+          "URL of a JSON-RPC signer (eg. a local signing proxy) that will sign transaction batches"
+        ).env("REMOTE_SIGNER_URL")
+      )
+      .addOption(
+        new Option(
+          "--signer-address <address>",
+          "Account of the remote signer to use, defaults to its first account"
+        )
+          .env("SIGNER_ADDRESS")
+          .argParser(cliParseAddress)
+      );
+    return cmd;
+  }
+}
+
+// --- CLI parsers
+
+/**
+ * Parses a number from the CLI
+ * @param value raw user input for verification
+ * @returns a sanitized string representing a number
+ */
+function cliParseInt(value: string, _: unknown): number {
+  const parsedValue = parseInt(value, 10);
+  if (isNaN(parsedValue)) {
+    throw new InvalidOptionArgumentError("Not a number.");
+  }
+  return parsedValue;
+}
+
+/**
+ * Parses a duration from the CLI, in seconds or with units of seconds, minutes,
+ * hours, days or weeks (ie. 90, 30m, 4h, 1d, 1h30m)
+ * @param value raw user input for verification
+ * @returns the duration in seconds
+ */
+function cliParseDuration(value: string, _: unknown): number {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  if (!/^(\d+[smhdw])+$/.test(value)) {
+    throw new InvalidOptionArgumentError(`Invalid duration: ${value}`);
+  }
+
+  const seconds: Record<string, number> = {
+    s: 1,
+    m: 60,
+    h: 3600,
+    d: 86400,
+    w: 604800,
+  };
+  let duration = 0;
+  for (const [, amount, unit] of value.matchAll(/(\d+)([smhdw])/g)) {
+    duration += parseInt(amount, 10) * seconds[unit];
+  }
+  return duration;
+}
+
+/**
+ * Parses a time from the CLI, in UNIX epoch seconds, as an ISO-8601 date, or
+ * as a duration after or before now (ie. +10m or -30d)
+ * @param value raw user input for verification
+ * @returns the time in UNIX epoch seconds
+ */
+function cliParseTime(value: string, _: unknown): number {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  if (value.startsWith("+") || value.startsWith("-")) {
+    const duration = cliParseDuration(value.slice(1), _);
+    return (
+      Math.floor(Date.now() / 1000) +
+      (value.startsWith("+") ? duration : -duration)
+    );
+  }
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new InvalidOptionArgumentError(`Invalid time: ${value}`);
+  }
+  return Math.floor(time / 1000);
+}
+
+/**
+ * Parses basis points from the CLI
+ * @param value raw user input for verification
+ * @returns a number of basis points, less than 10000
+ */
+function cliParseBps(value: string, _: unknown): number {
+  const parsedValue = cliParseInt(value, _);
+  if (parsedValue < 0 || parsedValue >= 10000) {
+    throw new InvalidOptionArgumentError("Must be between 0 and 9999.");
+  }
+  return parsedValue;
+}
+
+/**
+ * Parses an Ethereum address from the CLI
+ * @param value raw user input for verification
+ * @returns a sanitized string representing an Ethereum address
+ */
+function cliParseAddress(value: string, _: any): string {
+  if (!ethers.utils.isAddress(value)) {
+    throw new InvalidOptionArgumentError(`Invalid address: ${value}`);
+  }
+
+  return value;
+}
+
+/**
+ * Parses a decimal number from the CLI
+ * @param value raw user input for verification
+ * @returns a sanitized string representing a decimal number
+ */
+function cliParseDecimalNumber(value: string, _: any): string {
+  // Verify that the value is a string with only digits and a single decimal point that may be a represented by a comma
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new InvalidOptionArgumentError(`Invalid number: ${value}`);
+  }
+
+  // Replace the decimal point with a dot
+  value = value.replace(",", ".");
+
+  return value;
+}
+
+/**
+ * Add the options that control how a transaction batch is submitted
+ * @param command to add the options to
+ * @returns the command
+ */
+function addSubmissionOptions(command: Command): Command {
+  return command
+    .addOption(
+      new Option(
+        "-o, --output <file>",
+        "Write the batch to a Safe Transaction Builder JSON file instead of proposing it"
+      ).conflicts("execute")
+    )
+    .addOption(
+      new Option(
+        "--execute",
+        "Execute the transaction directly when the signer alone meets the Safe's threshold"
+      )
+    );
+}
+
+/**
+ * Add the options that define a TWAP order to a command
+ * @param command to add the options to
+ * @param mandatory whether the options are required
+ * @returns the command
+ */
+function addTwapOptions(command: Command, mandatory: boolean): Command {
+  return command
+    .addOption(
       new Option("--sell-token <sellToken>", "Address of the token to sell")
         .argParser(cliParseAddress)
-        .makeOptionMandatory(true)
+        .makeOptionMandatory(mandatory)
     )
     .addOption(
       new Option("--buy-token <buyToken>", "Address of the token to buy")
         .argParser(cliParseAddress)
-        .makeOptionMandatory(true)
+        .makeOptionMandatory(mandatory)
     )
     .addOption(
       new Option(
@@ -453,7 +2039,7 @@ async function main() {
         "Address of the receiver of the buy token"
       )
         .default(ethers.constants.AddressZero)
-        .makeOptionMandatory(true)
+        .makeOptionMandatory(mandatory)
     )
     .addOption(
       new Option(
@@ -461,7 +2047,13 @@ async function main() {
         "Total amount of the token to sell"
       )
         .argParser(cliParseDecimalNumber)
-        .makeOptionMandatory(true)
+        .conflicts("partSellAmount")
+    )
+    .addOption(
+      new Option(
+        "--part-sell-amount <partSellAmount>",
+        "Amount of the token to sell in each part"
+      ).argParser(cliParseDecimalNumber)
     )
     .addOption(
       new Option(
@@ -469,48 +2061,220 @@ async function main() {
         "Minimum amount of the token to buy"
       )
         .argParser(cliParseDecimalNumber)
-        .makeOptionMandatory(true)
+        .conflicts(["partMinBuyAmount", "slippageBps", "limitPrice"])
+    )
+    .addOption(
+      new Option(
+        "--part-min-buy-amount <partMinBuyAmount>",
+        "Minimum amount of the token to buy in each part"
+      )
+        .argParser(cliParseDecimalNumber)
+        .conflicts(["slippageBps", "limitPrice"])
+    )
+    .addOption(
+      new Option(
+        "--slippage-bps <slippageBps>",
+        "Derive the minimum buy amount from a quote, less this slippage in basis points"
+      )
+        .argParser(cliParseBps)
+        .conflicts("limitPrice")
+    )
+    .addOption(
+      new Option(
+        "--limit-price <limitPrice>",
+        "Derive the minimum buy amount from a price, in buy token per sell token"
+      ).argParser(cliParseDecimalNumber)
+    )
+    .addOption(
+      new Option(
+        "--api-url <apiUrl>",
+        "Base URL of the CoW Protocol API, used for quotes"
+      ).env("COW_API_URL")
+    )
+    .addOption(
+      new Option(
+        "--rounding <rounding>",
+        "How to split totals that are not divisible by the number of parts"
+      )
+        .choices(["down", "up", "exact"])
+        .default("down")
     )
     .addOption(
       new Option(
         "-t0 --start-time <startTime>",
-        "Start time of the TWAP in UNIX epoch seconds"
+        "Start time of the TWAP in UNIX epoch seconds, ISO-8601, or relative to now (ie. +10m)"
       )
-        .default(Math.floor(Date.now() / 1000).toString())
-        .argParser(cliParseInt)
-        .makeOptionMandatory(true)
+        .default(undefined, "now")
+        .argParser(cliParseTime)
     )
     .addOption(
       new Option("-n --num-parts <numParts>", "Number of time intervals")
         .argParser(parseInt)
-        .makeOptionMandatory(true)
+        .makeOptionMandatory(mandatory)
     )
     .addOption(
       new Option(
         "-t --time-interval <frequency>",
-        "Duration of each time interval in seconds"
+        "Duration of each time interval in seconds, or with a unit (ie. 30m, 4h, 1d)"
       )
-        .argParser(parseInt)
-        .makeOptionMandatory(true)
+        .argParser(cliParseDuration)
+        .conflicts(["endTime", "totalDuration"])
     )
     .addOption(
-      new Option("-s --span <span>", "Duration of the TWAP in seconds")
-        .argParser(parseInt)
+      new Option(
+        "--end-time <endTime>",
+        "End time of the TWAP, from which the time interval is derived"
+      )
+        .argParser(cliParseTime)
+        .conflicts("totalDuration")
+    )
+    .addOption(
+      new Option(
+        "--total-duration <totalDuration>",
+        "Duration of the whole TWAP, from which the time interval is derived"
+      ).argParser(cliParseDuration)
+    )
+    .addOption(
+      new Option(
+        "-s --span <span>",
+        "Duration of each part in which it may trade (0 for the whole interval)"
+      )
+        .argParser(cliParseDuration)
         .default(0)
+    );
+}
+
+/**
+ * CLI entry point
+ */
+async function main() {
+  const program = new RootCommand()
+    .name("conditional-orders")
+    .description(
+      "Dispatch or cancel conditional orders on Safe using CoW Protocol"
     )
-    .action(createTwapOrder);
+    .version("0.0.1");
+
+  addSubmissionOptions(
+    addTwapOptions(
+      program
+        .command("create-twap")
+        .description("Create a TWAP order")
+        .addOption(
+          new Option(
+            "--force",
+            "Create the order even if it fails validation or pre-flight checks"
+          )
+        ),
+      true
+    )
+  ).action(createTwapOrder);
+
+  addTwapOptions(
+    program
+      .command("schedule")
+      .description("Preview the schedule of every part of a TWAP order")
+      .addOption(
+        new Option(
+          "--payload <payload>",
+          "ABI-encoded TWAP order, instead of the TWAP options"
+        )
+      )
+      .addOption(
+        new Option("--format <format>", "Output format")
+          .choices(["table", "json"])
+          .default("table")
+      ),
+    false
+  ).action(printTwapSchedule);
+
+  program
+    .command("status")
+    .description("Show the status of every part of a TWAP order")
+    .addOption(new Option("--payload <payload>", "ABI-encoded TWAP order"))
+    .addOption(
+      new Option(
+        "--order-hash <orderHash>",
+        "Hash of the conditional order, instead of the payload"
+      )
+    )
+    .addOption(
+      new Option("--api-url <apiUrl>", "Base URL of the CoW Protocol API").env(
+        "COW_API_URL"
+      )
+    )
+    .addOption(
+      new Option(
+        "--from-block <fromBlock>",
+        "Block from which to search for the conditional order by hash"
+      )
+        .argParser(cliParseInt)
+        .default(0)
+    )
+    .addOption(
+      new Option("--format <format>", "Output format")
+        .choices(["table", "json"])
+        .default("table")
+    )
+    .action(printOrderStatus);
 
   program
-    .command("set-fallback-handler")
-    .description("Set the fallback handler of the Safe")
-    .requiredOption("--handler <handler>", "Address of the fallback handler")
-    .action(setFallbackHandler);
+    .command("report")
+    .description(
+      "Report the execution of the Safe's TWAP orders, running at any time in a date range"
+    )
+    .addOption(
+      new Option(
+        "--from <from>",
+        "Start of the date range, in UNIX epoch seconds, ISO-8601, or relative to now (ie. -30d)"
+      ).argParser(cliParseTime)
+    )
+    .addOption(
+      new Option(
+        "--to <to>",
+        "End of the date range, in UNIX epoch seconds, ISO-8601, or relative to now (ie. -30d)"
+      ).argParser(cliParseTime)
+    )
+    .addOption(
+      new Option(
+        "--from-block <fromBlock>",
+        "Block from which to search for conditional orders and trades"
+      )
+        .argParser(cliParseInt)
+        .default(0)
+    )
+    .addOption(
+      new Option("--format <format>", "Output format")
+        .choices(["table", "json", "csv"])
+        .default("table")
+    )
+    .action(printExecutionReport);
 
   program
-    .command("cancel-order")
-    .description("Cancel an order")
-    .requiredOption("--order-hash <orderHash>", "ID of the order to cancel")
-    .action(cancelOrder);
+    .command("decode")
+    .description("Decode the payload of a conditional order")
+    .requiredOption("--payload <payload>", "ABI-encoded conditional order")
+    .addOption(
+      new Option(
+        "--type <type>",
+        "Type of the conditional order, instead of detecting it"
+      ).choices(listCodecs())
+    )
+    .action(decodeConditionalOrder);
+
+  addSubmissionOptions(
+    program
+      .command("set-fallback-handler")
+      .description("Set the fallback handler of the Safe")
+      .requiredOption("--handler <handler>", "Address of the fallback handler")
+  ).action(setFallbackHandler);
+
+  addSubmissionOptions(
+    program
+      .command("cancel-order")
+      .description("Cancel an order")
+      .requiredOption("--order-hash <orderHash>", "ID of the order to cancel")
+  ).action(cancelOrder);
 
   await program.parseAsync(process.argv);
 }
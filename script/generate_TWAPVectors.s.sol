@@ -0,0 +1,219 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity >=0.8.0 <0.9.0;
+
+import "forge-std/Script.sol";
+
+import {IERC20} from "@openzeppelin/interfaces/IERC20Metadata.sol";
+
+import {ConditionalOrder} from "../src/interfaces/ConditionalOrder.sol";
+import {TWAPOrder} from "../src/libraries/TWAPOrder.sol";
+import {TWAPOrderMathLib} from "../src/libraries/TWAPOrderMathLib.sol";
+
+/// @dev Exposes the internal TWAP library functions so that their reverts can be caught.
+contract TWAPOrderHarness {
+    function validate(TWAPOrder.Data memory self) external pure {
+        TWAPOrder.validate(self);
+    }
+
+    function calculateValidTo(uint256 startTime, uint256 numParts, uint256 frequency, uint256 span)
+        external
+        view
+        returns (uint256)
+    {
+        return TWAPOrderMathLib.calculateValidTo(startTime, numParts, frequency, span);
+    }
+}
+
+/// @title Generate TWAP test vectors
+/// @author mfw78 <mfw78@rndlabs.xyz>
+/// @dev Writes the results of `TWAPOrder.validate` and `TWAPOrderMathLib.calculateValidTo` for a fixed set of
+/// cases to `test/vectors/twap.json`. The watch tower's TypeScript port of these functions is tested against this
+/// file, so it must be regenerated whenever either library changes:
+/// `forge script script/generate_TWAPVectors.s.sol:GenerateTWAPVectors`
+contract GenerateTWAPVectors is Script {
+    struct ValidToCase {
+        uint256 startTime;
+        uint256 numParts;
+        uint256 frequency;
+        uint256 span;
+        uint256 timestamp;
+    }
+
+    string constant PATH = "test/vectors/twap.json";
+
+    TWAPOrderHarness harness;
+
+    function run() external {
+        harness = new TWAPOrderHarness();
+
+        string memory json = string.concat(
+            "{\n",
+            '  "validate": [\n',
+            validateVectors(),
+            "  ],\n",
+            '  "calculateValidTo": [\n',
+            calculateValidToVectors(),
+            "  ]\n",
+            "}\n"
+        );
+
+        vm.writeFile(PATH, json);
+    }
+
+    function validateVectors() internal returns (string memory vectors) {
+        TWAPOrder.Data[] memory cases = new TWAPOrder.Data[](16);
+        for (uint256 i = 0; i < cases.length; i++) {
+            cases[i] = TWAPOrder.Data({
+                sellToken: IERC20(address(1)),
+                buyToken: IERC20(address(2)),
+                receiver: address(0),
+                partSellAmount: 1000,
+                minPartLimit: 1,
+                t0: 1000000,
+                n: 24,
+                t: 1 hours,
+                span: 0
+            });
+        }
+        cases[1].buyToken = IERC20(address(1));
+        cases[2].sellToken = IERC20(address(0));
+        cases[3].buyToken = IERC20(address(0));
+        cases[4].partSellAmount = 0;
+        cases[5].minPartLimit = 0;
+        cases[6].t0 = type(uint32).max - 1;
+        cases[7].t0 = type(uint32).max;
+        cases[8].n = 1;
+        cases[9].n = type(uint32).max;
+        cases[10].n = uint256(type(uint32).max) + 1;
+        cases[11].t = 0;
+        cases[12].t = 365 days;
+        cases[13].t = 365 days + 1;
+        cases[14].span = 1 hours;
+        cases[15].span = 1 hours + 1;
+
+        for (uint256 i = 0; i < cases.length; i++) {
+            string memory err = "null";
+            try harness.validate(cases[i]) {}
+            catch (bytes memory reason) {
+                err = quote(errorName(reason));
+            }
+
+            vectors = string.concat(
+                vectors, "    { ", twapJson(cases[i]), ', "error": ', err, closing(i == cases.length - 1)
+            );
+        }
+    }
+
+    function twapJson(TWAPOrder.Data memory c) internal returns (string memory) {
+        string memory tokens = string.concat(
+            '"sellToken": ',
+            quote(vm.toString(address(c.sellToken))),
+            ', "buyToken": ',
+            quote(vm.toString(address(c.buyToken))),
+            ', "partSellAmount": ',
+            vm.toString(c.partSellAmount),
+            ', "minPartLimit": ',
+            vm.toString(c.minPartLimit)
+        );
+
+        return string.concat(
+            tokens,
+            ', "t0": ',
+            vm.toString(c.t0),
+            ', "n": ',
+            vm.toString(c.n),
+            ', "t": ',
+            vm.toString(c.t),
+            ', "span": ',
+            vm.toString(c.span)
+        );
+    }
+
+    function calculateValidToVectors() internal returns (string memory vectors) {
+        ValidToCase[] memory cases = new ValidToCase[](17);
+        // span = 0: before the start, each boundary of the parts, and after the end
+        cases[0] = ValidToCase(1000000, 24, 1 hours, 0, 999999);
+        cases[1] = ValidToCase(1000000, 24, 1 hours, 0, 1000000);
+        cases[2] = ValidToCase(1000000, 24, 1 hours, 0, 1003599);
+        cases[3] = ValidToCase(1000000, 24, 1 hours, 0, 1003600);
+        cases[4] = ValidToCase(1000000, 24, 1 hours, 0, 1086399);
+        cases[5] = ValidToCase(1000000, 24, 1 hours, 0, 1086400);
+        // span > 0: inside and outside of the span
+        cases[6] = ValidToCase(1000000, 24, 1 hours, 5 minutes, 1000000);
+        cases[7] = ValidToCase(1000000, 24, 1 hours, 5 minutes, 1000299);
+        cases[8] = ValidToCase(1000000, 24, 1 hours, 5 minutes, 1000300);
+        cases[9] = ValidToCase(1000000, 24, 1 hours, 5 minutes, 1003750);
+        cases[10] = ValidToCase(1000000, 24, 1 hours, 5 minutes, 1086399);
+        cases[11] = ValidToCase(1000000, 24, 1 hours, 1 hours, 1003600);
+        // bounds
+        cases[12] = ValidToCase(1000000, 2, 1, 0, 1000001);
+        cases[13] = ValidToCase(1000000, 2, 1, 0, 1000002);
+        cases[14] = ValidToCase(1681000000, 4, 365 days, 365 days, 1775608005);
+        cases[15] = ValidToCase(type(uint32).max - 1, 2, 1, 0, type(uint32).max);
+        // the largest `numParts * frequency`, which does not fit in a double
+        cases[16] = ValidToCase(1681000000, type(uint32).max, 365 days, 0, 1775608005);
+
+        for (uint256 i = 0; i < cases.length; i++) {
+            ValidToCase memory c = cases[i];
+            vm.warp(c.timestamp);
+
+            string memory validTo = "null";
+            string memory err = "null";
+            try harness.calculateValidTo(c.startTime, c.numParts, c.frequency, c.span) returns (uint256 result) {
+                validTo = vm.toString(result);
+            } catch (bytes memory reason) {
+                err = quote(errorName(reason));
+            }
+
+            vectors = string.concat(
+                vectors,
+                "    { ",
+                validToCaseJson(c),
+                ', "validTo": ',
+                validTo,
+                ', "error": ',
+                err,
+                closing(i == cases.length - 1)
+            );
+        }
+    }
+
+    function validToCaseJson(ValidToCase memory c) internal returns (string memory) {
+        return string.concat(
+            '"startTime": ',
+            vm.toString(c.startTime),
+            ', "numParts": ',
+            vm.toString(c.numParts),
+            ', "frequency": ',
+            vm.toString(c.frequency),
+            ', "span": ',
+            vm.toString(c.span),
+            ', "timestamp": ',
+            vm.toString(c.timestamp)
+        );
+    }
+
+    /// @dev Map the revert data of a custom error to its name.
+    function errorName(bytes memory reason) internal pure returns (string memory) {
+        bytes4 selector = bytes4(reason);
+        if (selector == TWAPOrder.InvalidSameToken.selector) return "InvalidSameToken";
+        if (selector == TWAPOrder.InvalidToken.selector) return "InvalidToken";
+        if (selector == TWAPOrder.InvalidPartSellAmount.selector) return "InvalidPartSellAmount";
+        if (selector == TWAPOrder.InvalidMinPartLimit.selector) return "InvalidMinPartLimit";
+        if (selector == TWAPOrder.InvalidStartTime.selector) return "InvalidStartTime";
+        if (selector == TWAPOrder.InvalidNumParts.selector) return "InvalidNumParts";
+        if (selector == TWAPOrder.InvalidFrequency.selector) return "InvalidFrequency";
+        if (selector == TWAPOrder.InvalidSpan.selector) return "InvalidSpan";
+        if (selector == ConditionalOrder.OrderNotValid.selector) return "OrderNotValid";
+        if (selector == ConditionalOrder.OrderExpired.selector) return "OrderExpired";
+        revert("unknown error");
+    }
+
+    function closing(bool last) internal pure returns (string memory) {
+        return last ? string(" }\n") : string(" },\n");
+    }
+
+    function quote(string memory value) internal pure returns (string memory) {
+        return string.concat('"', value, '"');
+    }
+}